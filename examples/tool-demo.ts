@@ -4,8 +4,16 @@
  *   export OPENAI_API_KEY="sk-..."
  *   npx tsx examples/tool-demo.ts
  */
-import { Signature, InputField, OutputField, RespAct, configure } from '@ts-dspy/core';
+import {
+    Signature,
+    InputField,
+    OutputField,
+    RespAct,
+    configure,
+    defineTool,
+} from '@ts-dspy/core';
 import { OpenAILM } from '@ts-dspy/openai';
+import { z } from 'zod';
 import { evaluateArithmetic, requireEnv, section } from './utils';
 
 class ResearchQuestion extends Signature {
@@ -41,10 +49,15 @@ async function main(): Promise<void> {
             // Never eval() model output — this is a bounded arithmetic parser.
             function: (expression: string) => evaluateArithmetic(expression),
         },
-        population: {
+        // A typed tool: the model writes JSON arguments, validated before `execute` runs.
+        population: defineTool({
+            name: 'population',
             description:
-                'Look up a city\'s metro-area population. Input: a city name, e.g. "Tokyo". Returns the population as a number, or an error if the city is unknown.',
-            function: (city: string) => {
+                "Look up a city's metro-area population. Returns the population as a number, or an error if the city is unknown.",
+            parameters: z.object({
+                city: z.string().describe('a city name, e.g. "Tokyo"'),
+            }),
+            execute: ({ city }) => {
                 const value = POPULATION[city.trim().toLowerCase()];
                 if (value === undefined) {
                     throw new Error(
@@ -53,7 +66,7 @@ async function main(): Promise<void> {
                 }
                 return value;
             },
-        },
+        }),
     };
 
     section('RespAct with tools');
@@ -162,6 +162,18 @@ describe('AnthropicLM', () => {
 
             expect(mocks.create.mock.calls[0][1]).toEqual({ timeout: 3000, maxRetries: 4 });
         });
+
+        it('passes the abort signal to the SDK', async () => {
+            mocks.create.mockResolvedValue(message('ok'));
+            const controller = new AbortController();
+            await new AnthropicLM({ apiKey: 'k' }).generate('Hi', {
+                signal: controller.signal,
+            });
+
+            const { signal } = mocks.create.mock.calls[0][1];
+            controller.abort();
+            expect(signal.aborted).toBe(true);
+        });
     });
 
     describe('generateStructured', () => {
@@ -237,6 +249,77 @@ describe('AnthropicLM', () => {
         });
     });
 
+    describe('tool calling', () => {
+        it('offers tools and returns tool_use blocks as calls', async () => {
+            mocks.create.mockResolvedValue(
+                message('Let me look.', {
+                    content: [
+                        { type: 'text', text: 'Let me look.' },
+                        {
+                            type: 'tool_use',
+                            id: 'tu_1',
+                            name: 'search',
+                            input: { input: 'tides' },
+                        },
+                    ],
+                    stop_reason: 'tool_use',
+                })
+            );
+
+            const response = await new AnthropicLM({ apiKey: 'k' }).chatWithTools(
+                [{ role: 'user', content: 'Hi' }],
+                [{ name: 'search', description: 'Search', parameters: { type: 'object' } }]
+            );
+
+            expect(response).toEqual({
+                content: 'Let me look.',
+                toolCalls: [
+                    {
+                        id: 'tu_1',
+                        type: 'function',
+                        function: { name: 'search', arguments: '{"input":"tides"}' },
+                    },
+                ],
+            });
+            expect(mocks.create.mock.calls[0][0].tools).toEqual([
+                { name: 'search', description: 'Search', input_schema: { type: 'object' } },
+            ]);
+        });
+
+        it('sends calls as tool_use and results as tool_result blocks in one user turn', () => {
+            const call = (id: string) => ({
+                id,
+                type: 'function' as const,
+                function: { name: 'search', arguments: '{"input":"x"}' },
+            });
+
+            const { messages } = toAnthropicMessages([
+                { role: 'user', content: 'Q' },
+                { role: 'assistant', content: '', toolCalls: [call('a'), call('b')] },
+                { role: 'tool', content: 'one', toolCallId: 'a' },
+                { role: 'tool', content: 'two', toolCallId: 'b' },
+            ]);
+
+            expect(messages).toEqual([
+                { role: 'user', content: 'Q' },
+                {
+                    role: 'assistant',
+                    content: [
+                        { type: 'tool_use', id: 'a', name: 'search', input: { input: 'x' } },
+                        { type: 'tool_use', id: 'b', name: 'search', input: { input: 'x' } },
+                    ],
+                },
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'tool_result', tool_use_id: 'a', content: 'one' },
+                        { type: 'tool_result', tool_use_id: 'b', content: 'two' },
+                    ],
+                },
+            ]);
+        });
+    });
+
     describe('toAnthropicMessages', () => {
         it('lifts system messages into the top-level system parameter', () => {
             const { system, messages } = toAnthropicMessages([
@@ -2,12 +2,20 @@ import {
     BaseLM,
     LMError,
     type ChatMessage,
+    type ChatResponse,
     type LLMCallOptions,
     type ModelCapabilities,
     type StreamChunk,
+    type ToolCall,
+    type ToolSpec,
 } from '@ts-dspy/core';
 import Anthropic, { APIError } from '@anthropic-ai/sdk';
-import type { Message, MessageParam } from '@anthropic-ai/sdk/resources/messages';
+import type {
+    ContentBlockParam,
+    Message,
+    MessageParam,
+    Tool,
+} from '@anthropic-ai/sdk/resources/messages';
 
 /** Current Claude Opus. Model IDs are exact — never append a date suffix. */
 export const DEFAULT_ANTHROPIC_MODEL = 'claude-opus-5';
@@ -53,6 +61,8 @@ export class AnthropicRefusalError extends LMError {
 }
 
 export class AnthropicLM extends BaseLM {
+    /** Always present: this provider implements native tool calling. */
+    declare readonly chatWithTools: NonNullable<BaseLM['chatWithTools']>;
     private readonly client: Anthropic;
     private readonly defaultMaxTokens: number;
 
@@ -68,7 +78,10 @@ export class AnthropicLM extends BaseLM {
         this.defaultMaxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
     }
 
-    async chat(messages: ChatMessage[], options?: LLMCallOptions): Promise<string> {
+    protected async chatRequest(
+        messages: ChatMessage[],
+        options?: LLMCallOptions
+    ): Promise<string> {
         const { system, messages: converted } = toAnthropicMessages(messages);
         const startedAt = Date.now();
 
@@ -99,7 +112,47 @@ export class AnthropicLM extends BaseLM {
         return textOf(message);
     }
 
-    async generateStructured<T>(
+    protected async toolsRequest(
+        messages: ChatMessage[],
+        tools: ToolSpec[],
+        options?: LLMCallOptions
+    ): Promise<ChatResponse> {
+        const { system, messages: converted } = toAnthropicMessages(messages);
+        const startedAt = Date.now();
+
+        let message: Message;
+        try {
+            message = await this.client.messages.create(
+                {
+                    model: options?.model ?? this.model,
+                    max_tokens: options?.maxTokens ?? this.defaultMaxTokens,
+                    messages: converted,
+                    ...(system ? { system } : {}),
+                    tools: tools.map((tool) => ({
+                        name: tool.name,
+                        description: tool.description,
+                        input_schema: tool.parameters as Tool.InputSchema,
+                    })),
+                    ...samplingParams(options),
+                },
+                requestOptions(options)
+            );
+        } catch (error) {
+            this.recordError();
+            throw toLMError(error);
+        }
+
+        this.recordUsage({
+            promptTokens: message.usage?.input_tokens ?? 0,
+            completionTokens: message.usage?.output_tokens ?? 0,
+            latencyMs: Date.now() - startedAt,
+        });
+
+        this.assertNotRefused(message);
+        return { content: textOf(message), toolCalls: toolCallsOf(message) };
+    }
+
+    protected async structuredRequest<T>(
         prompt: string,
         schema: unknown,
         options?: LLMCallOptions
@@ -166,6 +219,7 @@ export class AnthropicLM extends BaseLM {
         messages: ChatMessage[],
         options?: LLMCallOptions
     ): AsyncGenerator<StreamChunk, void, unknown> {
+        options = this.withSignal(options);
         const { system, messages: converted } = toAnthropicMessages(messages);
         const startedAt = Date.now();
 
@@ -248,12 +302,26 @@ function textOf(message: Message): string {
         .join('');
 }
 
+function toolCallsOf(message: Message): ToolCall[] {
+    return message.content
+        .filter(
+            (block): block is Extract<typeof block, { type: 'tool_use' }> =>
+                block.type === 'tool_use'
+        )
+        .map((block) => ({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input) },
+        }));
+}
+
 /**
  * Convert ts-dspy messages into the Messages API shape.
  *
  * System messages become the top-level `system` parameter — Anthropic has no
  * system role inside `messages`. Consecutive same-role turns are merged, since
- * the API requires strict alternation.
+ * the API requires strict alternation. Tool calls become `tool_use` blocks, and
+ * tool results `tool_result` blocks in a user turn.
  */
 export function toAnthropicMessages(messages: ChatMessage[]): {
     system?: string;
@@ -269,12 +337,15 @@ export function toAnthropicMessages(messages: ChatMessage[]): {
         }
 
         const role: 'user' | 'assistant' = message.role === 'assistant' ? 'assistant' : 'user';
+        const content = toAnthropicContent(message);
         const previous = converted.at(-1);
 
-        if (previous?.role === role && typeof previous.content === 'string') {
-            previous.content = `${previous.content}\n\n${message.content}`;
+        if (previous?.role !== role) {
+            converted.push({ role, content });
+        } else if (typeof previous.content === 'string' && typeof content === 'string') {
+            previous.content = `${previous.content}\n\n${content}`;
         } else {
-            converted.push({ role, content: message.content });
+            previous.content = [...toBlocks(previous.content), ...toBlocks(content)];
         }
     }
 
@@ -284,6 +355,34 @@ export function toAnthropicMessages(messages: ChatMessage[]): {
     };
 }
 
+function toAnthropicContent(message: ChatMessage): string | ContentBlockParam[] {
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+        return [
+            ...(message.content ? toBlocks(message.content) : []),
+            ...message.toolCalls.map((call) => ({
+                type: 'tool_use' as const,
+                id: call.id,
+                name: call.function.name,
+                input: JSON.parse(call.function.arguments || '{}') as unknown,
+            })),
+        ];
+    }
+    if ((message.role === 'tool' || message.role === 'function') && message.toolCallId) {
+        return [
+            {
+                type: 'tool_result',
+                tool_use_id: message.toolCallId,
+                content: message.content,
+            },
+        ];
+    }
+    return message.content;
+}
+
+function toBlocks(content: string | ContentBlockParam[]): ContentBlockParam[] {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
 /**
  * Build sampling parameters.
  *
@@ -303,10 +402,17 @@ function samplingParams(options?: LLMCallOptions): Record<string, unknown> {
     return params;
 }
 
-function requestOptions(options?: LLMCallOptions): { timeout?: number; maxRetries?: number } {
-    const request: { timeout?: number; maxRetries?: number } = {};
+interface RequestOptions {
+    timeout?: number;
+    maxRetries?: number;
+    signal?: AbortSignal;
+}
+
+function requestOptions(options?: LLMCallOptions): RequestOptions {
+    const request: RequestOptions = {};
     if (options?.timeout !== undefined) request.timeout = options.timeout;
     if (options?.retries !== undefined) request.maxRetries = options.retries;
+    if (options?.signal) request.signal = options.signal;
     return request;
 }
 
@@ -0,0 +1,112 @@
+import { assert, suggest, withAssertions } from './assertions';
+import { AssertionFailedError, TsDspyError } from './errors';
+import { Module } from './module';
+import { type Prediction } from './prediction';
+import { Predict } from '../modules/predict';
+import { MockLM } from '../test-utils';
+
+/** Drafts an answer, then shortens it; asserts the result fits in `limit` characters. */
+class Tweet extends Module {
+    draft: Predict;
+    shorten: Predict;
+    private readonly soft: boolean;
+
+    constructor(lm: MockLM, soft = false) {
+        super();
+        this.draft = new Predict('question -> answer', lm);
+        this.shorten = new Predict('answer -> tweet', lm);
+        this.soft = soft;
+    }
+
+    async forward(inputs: Record<string, any>): Promise<Prediction> {
+        const { answer } = await this.draft.forward(inputs);
+        const result = await this.shorten.forward({ answer });
+        const check = this.soft ? suggest : assert;
+        check(result.tweet.length <= 10, 'The tweet must be at most 10 characters.');
+        return result;
+    }
+}
+
+/** Replies by which predictor is asking: drafts always, tweets in the given order. */
+function scripted(tweets: string[]): MockLM {
+    return new MockLM({
+        respond: (prompt) =>
+            prompt.includes('Provide the tweet')
+                ? `tweet: ${tweets.shift()}`
+                : 'answer: a draft',
+    });
+}
+
+describe('assertions', () => {
+    it('retries with the rejected output and feedback in the blamed prompt', async () => {
+        const lm = scripted(['far too long to post', 'short one']);
+        const program = new Tweet(lm);
+
+        const result = await withAssertions(() => program.forward({ question: 'Q' }));
+
+        expect(result.get('tweet')).toBe('short one');
+        const prompts = lm.calls.map((call) => call.messages[0].content);
+        expect(prompts).toHaveLength(4);
+        expect(prompts[3]).toContain('tweet: far too long to post');
+        expect(prompts[3]).toContain('Feedback: The tweet must be at most 10 characters.');
+        // Only the predictor called last before the assertion sees the feedback.
+        expect(prompts[2]).not.toContain('Feedback:');
+    });
+
+    it('shows every rejected output on later retries', async () => {
+        const lm = scripted(['too long, once', 'too long, twice', 'ok']);
+        const program = new Tweet(lm);
+
+        await withAssertions(() => program.forward({ question: 'Q' }));
+
+        const last = lm.lastPrompt();
+        expect(last).toContain('tweet: too long, once');
+        expect(last).toContain('tweet: too long, twice');
+    });
+
+    it('throws AssertionFailedError when the retries run out', async () => {
+        const program = new Tweet(scripted(['too long, once', 'too long, twice']));
+
+        const error = await withAssertions(() => program.forward({ question: 'Q' }), {
+            maxRetries: 1,
+        }).catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(AssertionFailedError);
+        expect(error).toBeInstanceOf(TsDspyError);
+        expect(error.feedback).toBe('The tweet must be at most 10 characters.');
+        expect(error.output).toEqual({ tweet: 'too long, twice' });
+        expect(error.attempts).toBe(2);
+    });
+
+    it('lets a program carry on once a suggestion runs out of retries', async () => {
+        const program = new Tweet(scripted(['too long, once', 'too long, twice']), true);
+
+        const result = await withAssertions(() => program.forward({ question: 'Q' }), {
+            maxRetries: 1,
+        });
+
+        expect(result.get('tweet')).toBe('too long, twice');
+    });
+
+    it('fails at once outside withAssertions, where suggestions are ignored', async () => {
+        await expect(
+            new Tweet(scripted(['far too long to post'])).forward({ question: 'Q' })
+        ).rejects.toThrow('Assertion failed: The tweet must be at most 10 characters.');
+
+        const result = await new Tweet(scripted(['far too long to post']), true).forward({
+            question: 'Q',
+        });
+        expect(result.get('tweet')).toBe('far too long to post');
+    });
+
+    it('does not retry other errors', async () => {
+        let runs = 0;
+        await expect(
+            withAssertions(async () => {
+                runs++;
+                throw new TypeError('bug');
+            })
+        ).rejects.toThrow(TypeError);
+        expect(runs).toBe(1);
+    });
+});
@@ -0,0 +1,161 @@
+import { AssertionFailedError } from './errors';
+import { createAsyncContext, requireAsyncContext } from '../utils/async-context';
+
+export interface AssertionOptions {
+    /** Times to re-run the program after a failed assertion or suggestion. Defaults to 2. */
+    maxRetries?: number;
+}
+
+/** An output an assertion rejected, and why. */
+export interface AssertionFeedback {
+    output: Record<string, any>;
+    message: string;
+}
+
+/** The state of one {@link withAssertions} run, shared by everything it awaits. */
+interface AssertionScope {
+    /** The most recent predictor call, which a failed assertion is blamed on. */
+    lastCall?: { predictor: object; output: Record<string, any> };
+    /** What earlier attempts got wrong, per predictor. */
+    feedback: Map<object, AssertionFeedback[]>;
+    attempt: number;
+    /** On the last attempt suggestions no longer fail, and assertions fail for good. */
+    finalAttempt: boolean;
+    /** The scope a {@link withFeedback} scope adds to: it sees the predictor calls made here too. */
+    parent?: AssertionScope;
+}
+
+const scopes = createAsyncContext<AssertionScope>();
+
+/** A failed suggestion: caught by {@link withAssertions} to retry, never seen outside it. */
+class SuggestionFailedError extends AssertionFailedError {}
+
+/**
+ * Require `condition` of the outputs so far, e.g. a length limit or a citation.
+ *
+ * ```ts
+ * const { answer } = await this.answer.forward(inputs);
+ * assert(answer.length <= 280, 'The answer must fit in 280 characters.');
+ * ```
+ *
+ * Inside {@link withAssertions}, a failure re-runs the program, and the last
+ * predictor called before the assertion sees its rejected output and `message`
+ * in its prompt. When no retries are left, or outside `withAssertions`, it
+ * throws {@link AssertionFailedError}.
+ */
+export function assert(condition: unknown, message: string): asserts condition {
+    if (condition) return;
+    const scope = scopes?.getStore();
+    throw new AssertionFailedError(message, {
+        output: scope?.lastCall?.output,
+        attempts: scope?.attempt ?? 1,
+    });
+}
+
+/**
+ * Like {@link assert}, but soft: when no retries are left, or outside
+ * {@link withAssertions}, the program carries on as though it had passed.
+ */
+export function suggest(condition: unknown, message: string): void {
+    if (condition) return;
+    const scope = scopes?.getStore();
+    if (!scope || scope.finalAttempt || !scope.lastCall) return;
+    throw new SuggestionFailedError(message, {
+        output: scope.lastCall.output,
+        attempts: scope.attempt,
+    });
+}
+
+/**
+ * Run `fn` — typically `() => program.forward(inputs)` — retrying it when an
+ * {@link assert} or {@link suggest} inside fails. Each retry shows the
+ * predictor blamed for the failure every output of it that was rejected, with
+ * the feedback, so it can correct course; other predictors run as before.
+ * Feedback belongs to predictor instances, so build the program outside `fn`.
+ *
+ * @throws {AssertionFailedError} when an assertion still fails on the last attempt.
+ */
+export async function withAssertions<T>(
+    fn: () => Promise<T>,
+    options: AssertionOptions = {}
+): Promise<T> {
+    const storage = requireAsyncContext(scopes, 'withAssertions');
+
+    const attempts = 1 + Math.max(0, options.maxRetries ?? 2);
+    const feedback = new Map<object, AssertionFeedback[]>();
+
+    for (let attempt = 1; ; attempt++) {
+        const scope: AssertionScope = { feedback, attempt, finalAttempt: attempt >= attempts };
+        try {
+            return await storage.run(scope, fn);
+        } catch (error) {
+            // Nothing to blame means nothing a retry would change.
+            const blamed = scope.lastCall;
+            if (!(error instanceof AssertionFailedError) || scope.finalAttempt || !blamed) {
+                throw error;
+            }
+            const previous = feedback.get(blamed.predictor) ?? [];
+            feedback.set(blamed.predictor, [
+                ...previous,
+                { output: blamed.output, message: error.feedback },
+            ]);
+        }
+    }
+}
+
+/** Note a predictor's output, so a failing assertion after it can be blamed on it. */
+export function recordPredictorCall(predictor: object, output: Record<string, any>): void {
+    for (let scope = scopes?.getStore(); scope; scope = scope.parent) {
+        scope.lastCall = { predictor, output };
+    }
+}
+
+/**
+ * Run `fn` with `feedback` shown to the modules it is keyed by, as a retry
+ * inside {@link withAssertions} would show it. Inside `withAssertions`, the
+ * feedback is added to that run's, and a failed assertion is retried as
+ * usual; outside it, assertions fail at once.
+ */
+export async function withFeedback<T>(
+    feedback: Map<object, AssertionFeedback[]>,
+    fn: () => Promise<T>
+): Promise<T> {
+    const storage = requireAsyncContext(scopes, 'withFeedback');
+    const outer = storage.getStore();
+    if (!outer) return storage.run({ feedback, attempt: 1, finalAttempt: true }, fn);
+    return storage.run(
+        { ...outer, feedback: mergeFeedback(outer.feedback, feedback), parent: outer },
+        fn
+    );
+}
+
+function mergeFeedback(
+    ...maps: Array<Map<object, AssertionFeedback[]>>
+): Map<object, AssertionFeedback[]> {
+    const merged = new Map<object, AssertionFeedback[]>();
+    for (const map of maps) {
+        for (const [module, feedback] of map) {
+            merged.set(module, [...(merged.get(module) ?? []), ...feedback]);
+        }
+    }
+    return merged;
+}
+
+/**
+ * What to add to a prompt of `module`'s: the outputs rejected on earlier
+ * attempts, each with its feedback. Empty when there are none.
+ */
+export function feedbackPrompt(module: object): string {
+    const feedback = scopes?.getStore()?.feedback.get(module) ?? [];
+    if (feedback.length === 0) return '';
+    const attempts = feedback.map(({ output, message }) => {
+        const fields = Object.entries(output)
+            .map(
+                ([key, value]) =>
+                    `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`
+            )
+            .join('\n');
+        return `${fields}\nFeedback: ${message}`;
+    });
+    return `\n\nThese earlier responses were rejected. Do not repeat them; follow the feedback:\n\n${attempts.join('\n\n---\n\n')}`;
+}
@@ -0,0 +1,82 @@
+import { BaseLM } from './base-lm';
+import { configure, withConfig } from './config';
+import { LMError } from './errors';
+import type { ChatMessage, LLMCallOptions, ModelCapabilities } from '../types/language-model';
+import { MockLM } from '../test-utils';
+
+/** A provider that never answers and ignores its signal, like a stuck socket. */
+class HangingLM extends BaseLM {
+    readonly received: Array<LLMCallOptions | undefined> = [];
+
+    constructor() {
+        super('hanging', 'hanging-model');
+    }
+
+    protected chatRequest(_messages: ChatMessage[], options?: LLMCallOptions): Promise<string> {
+        this.received.push(options);
+        return new Promise(() => {});
+    }
+
+    getCapabilities(): ModelCapabilities {
+        return new MockLM().getCapabilities();
+    }
+}
+
+describe('BaseLM cancellation', () => {
+    it('does not start a call whose signal has already fired', async () => {
+        const lm = new MockLM({ responses: ['unused'] });
+        const controller = new AbortController();
+        controller.abort(new Error('tab closed'));
+
+        await expect(lm.generate('Hi', { signal: controller.signal })).rejects.toThrow(
+            'tab closed'
+        );
+        expect(lm.calls).toHaveLength(0);
+    });
+
+    it('rejects a call in flight when aborted, even if the provider ignores the signal', async () => {
+        const lm = new HangingLM();
+        const controller = new AbortController();
+
+        const call = lm.generate('Hi', { signal: controller.signal });
+        controller.abort();
+
+        await expect(call).rejects.toMatchObject({ name: 'AbortError' });
+        expect(lm.received[0]?.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('rejects with a TimeoutError, not an LMError, once the deadline passes', async () => {
+        const error = await new HangingLM()
+            .generate('Hi', { deadline: Date.now() + 20 })
+            .catch((caught) => caught);
+
+        expect(error).toMatchObject({ name: 'TimeoutError' });
+        expect(error).not.toBeInstanceOf(LMError);
+    });
+
+    it('applies the signal and deadline of a withConfig scope to every call in it', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const lm = new MockLM({ responses: ['unused'] });
+
+        await withConfig({ signal: controller.signal }, async () => {
+            await expect(lm.generate('Hi')).rejects.toMatchObject({ name: 'AbortError' });
+        });
+        await withConfig({ deadline: Date.now() - 1 }, async () => {
+            await expect(lm.generate('Hi')).rejects.toMatchObject({ name: 'TimeoutError' });
+        });
+        expect(await lm.generate('Hi')).toBe('unused');
+    });
+
+    it('leaves calls without a signal or deadline untouched', async () => {
+        const lm = new MockLM({ responses: ['ok'] });
+
+        await lm.generate('Hi', { temperature: 0 });
+
+        expect(lm.calls[0].options).toEqual({ temperature: 0 });
+    });
+
+    it('only takes a signal or deadline per scope', () => {
+        expect(() => configure({ deadline: Date.now() + 1000 })).toThrow(/withConfig/);
+    });
+});
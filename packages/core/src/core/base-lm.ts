@@ -1,18 +1,23 @@
 import type {
     ChatMessage,
+    ChatResponse,
     ILanguageModel,
     LLMCallOptions,
     ModelCapabilities,
+    ToolSpec,
     UsageStats,
 } from '../types/language-model';
 import { LMError } from './errors';
+import { cacheKey } from './cache';
+import { getCache } from './config';
+import { callSignal } from '../utils/abort';
 
 /**
  * Shared implementation for language-model providers.
  *
- * Providers implement {@link chat} and {@link getCapabilities}; everything else —
- * usage accounting, `generate` delegation, and a prompt-based
- * `generateStructured` fallback for providers without native structured output —
+ * Providers implement {@link chatRequest} and {@link getCapabilities}; everything
+ * else — response caching, usage accounting, `generate` delegation, and a
+ * prompt-based structured-output fallback for providers without a native mode —
  * lives here so it is not copy-pasted per provider.
  */
 export abstract class BaseLM implements ILanguageModel {
@@ -24,26 +29,73 @@ export abstract class BaseLM implements ILanguageModel {
     private requestCount = 0;
     private errorCount = 0;
     private totalLatencyMs = 0;
+    private cacheHits = 0;
+
+    /**
+     * Chat with tools on offer, cached like {@link chat}. Present only when the
+     * provider implements {@link toolsRequest}, so callers such as `RespAct`
+     * can tell native tool calling is there to use, whatever the model's
+     * capabilities say.
+     */
+    readonly chatWithTools?: (
+        messages: ChatMessage[],
+        tools: ToolSpec[],
+        options?: LLMCallOptions
+    ) => Promise<ChatResponse>;
 
     protected constructor(provider: string, model: string) {
         this.provider = provider;
         this.model = model;
+        if (this.toolsRequest) {
+            this.chatWithTools = (messages, tools, options) =>
+                this.cancellable(options, (callOptions) =>
+                    this.cached({ messages, tools }, callOptions, () =>
+                        this.toolsRequest!(messages, tools, callOptions)
+                    )
+                );
+        }
     }
 
-    abstract chat(messages: ChatMessage[], options?: LLMCallOptions): Promise<string>;
+    /** Send a chat request to the provider. Called on a cache miss. */
+    protected abstract chatRequest(
+        messages: ChatMessage[],
+        options?: LLMCallOptions
+    ): Promise<string>;
 
     abstract getCapabilities(): ModelCapabilities;
 
+    async chat(messages: ChatMessage[], options?: LLMCallOptions): Promise<string> {
+        return this.cancellable(options, (callOptions) =>
+            this.cached({ messages }, callOptions, () =>
+                this.chatRequest(messages, callOptions)
+            )
+        );
+    }
+
     async generate(prompt: string, options?: LLMCallOptions): Promise<string> {
         return this.chat([{ role: 'user', content: prompt }], options);
     }
 
+    async generateStructured<T>(
+        prompt: string,
+        schema: unknown,
+        options?: LLMCallOptions
+    ): Promise<T> {
+        return this.cancellable(options, (callOptions) =>
+            this.cached(
+                { messages: [{ role: 'user', content: prompt }], schema },
+                callOptions,
+                () => this.structuredRequest<T>(prompt, schema, callOptions)
+            )
+        );
+    }
+
     /**
      * Default structured-output implementation: ask for JSON in the prompt and
      * parse the reply. Providers with a native JSON-schema mode should override
      * this — the native path constrains decoding, this one only requests it.
      */
-    async generateStructured<T>(
+    protected async structuredRequest<T>(
         prompt: string,
         schema: unknown,
         options?: LLMCallOptions
@@ -53,10 +105,22 @@ export abstract class BaseLM implements ILanguageModel {
             `Output only the JSON object, with no surrounding prose or code fences.\n` +
             `${JSON.stringify(schema, null, 2)}`;
 
-        const raw = await this.generate(instruction, options);
+        const raw = await this.chatRequest([{ role: 'user', content: instruction }], options);
         return parseJsonResponse<T>(raw, this.provider);
     }
 
+    /**
+     * Send a chat request with tools on offer. Called on a cache miss.
+     * Providers with native function calling implement it, which gives them
+     * {@link chatWithTools}; there is no prompt-based fallback, since `RespAct`
+     * already has its own text protocol.
+     */
+    protected toolsRequest?(
+        messages: ChatMessage[],
+        tools: ToolSpec[],
+        options?: LLMCallOptions
+    ): Promise<ChatResponse>;
+
     getUsage(): UsageStats {
         return {
             promptTokens: this.promptTokens,
@@ -65,6 +129,7 @@ export abstract class BaseLM implements ILanguageModel {
             requestCount: this.requestCount,
             errorCount: this.errorCount,
             averageLatency: this.requestCount > 0 ? this.totalLatencyMs / this.requestCount : 0,
+            cacheHits: this.cacheHits,
         };
     }
 
@@ -74,6 +139,7 @@ export abstract class BaseLM implements ILanguageModel {
         this.requestCount = 0;
         this.errorCount = 0;
         this.totalLatencyMs = 0;
+        this.cacheHits = 0;
     }
 
     getModelName(): string {
@@ -96,10 +162,91 @@ export abstract class BaseLM implements ILanguageModel {
         this.requestCount += 1;
     }
 
+    /**
+     * `options` with `signal` set to everything that can cancel the call: the
+     * caller's signal, the enclosing `withConfig` scope's, and the deadline.
+     * Providers pass `options.signal` to their SDK; streaming methods, which
+     * do not go through `chat`, call this themselves.
+     */
+    protected withSignal(options?: LLMCallOptions): LLMCallOptions | undefined {
+        const signal = callSignal(options);
+        return signal ? { ...options, signal } : options;
+    }
+
+    /**
+     * Run a request that an abort can cancel. It does not start once the signal
+     * has fired, and settles as soon as it fires, even if the provider does not
+     * honour the signal. It rejects with the signal's reason rather than the
+     * SDK's error for it, so modules that retry on `LMError` do not retry an
+     * abort.
+     */
+    private async cancellable<T>(
+        options: LLMCallOptions | undefined,
+        run: (options: LLMCallOptions | undefined) => Promise<T>
+    ): Promise<T> {
+        const callOptions = this.withSignal(options);
+        const signal = callOptions?.signal;
+        if (!signal) return run(callOptions);
+
+        signal.throwIfAborted();
+        let onAbort = () => {};
+        const aborted = new Promise<never>((_, reject) => {
+            onAbort = () => reject(signal.reason);
+            signal.addEventListener('abort', onAbort, { once: true });
+        });
+        try {
+            return await Promise.race([run(callOptions), aborted]);
+        } catch (error) {
+            if (signal.aborted) throw signal.reason;
+            throw error;
+        } finally {
+            signal.removeEventListener('abort', onAbort);
+        }
+    }
+
     /** Record a failed request. */
     protected recordError(): void {
         this.errorCount += 1;
     }
+
+    /**
+     * Serve a request from the configured cache, or run it and store the result.
+     * A hit costs nothing, so it is counted in `cacheHits` rather than recorded
+     * as a request.
+     */
+    private async cached<T>(
+        request: { messages: ChatMessage[]; schema?: unknown; tools?: ToolSpec[] },
+        options: LLMCallOptions | undefined,
+        run: () => Promise<T>
+    ): Promise<T> {
+        const cache = getCache();
+        if (!cache || options?.cache === false) {
+            return run();
+        }
+
+        const key = await cacheKey({
+            provider: this.provider,
+            model: this.model,
+            messages: request.messages,
+            schema: request.schema,
+            tools: request.tools,
+            options,
+        });
+
+        const hit = await cache.get(key);
+        if (hit !== undefined) {
+            this.cacheHits += 1;
+            return hit as T;
+        }
+
+        const result = await run();
+        try {
+            await cache.set(key, result);
+        } catch {
+            // The response is paid for: a store that cannot save it must not lose it.
+        }
+        return result;
+    }
 }
 
 /** Extract a JSON object from a model reply, tolerating code fences. */
@@ -0,0 +1,253 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryCache, DiskCache, cacheKey, type CacheStore } from './cache';
+import { configure } from './config';
+import { Predict } from '../modules/predict';
+import { MockLM } from '../test-utils';
+
+const base = { provider: 'mock', model: 'mock-model' };
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+describe('cacheKey', () => {
+    it('is stable for identical requests', async () => {
+        expect(await cacheKey({ ...base, messages })).toBe(
+            await cacheKey({ ...base, messages })
+        );
+    });
+
+    it('ignores property order in the schema', async () => {
+        const a = await cacheKey({
+            ...base,
+            messages,
+            schema: { type: 'object', required: [] },
+        });
+        const b = await cacheKey({
+            ...base,
+            messages,
+            schema: { required: [], type: 'object' },
+        });
+
+        expect(a).toBe(b);
+    });
+
+    it('changes with sampling options, provider, model, and schema', async () => {
+        const plain = await cacheKey({ ...base, messages });
+
+        expect(await cacheKey({ ...base, messages, options: { temperature: 0.5 } })).not.toBe(
+            plain
+        );
+        expect(await cacheKey({ ...base, provider: 'other', messages })).not.toBe(plain);
+        expect(await cacheKey({ ...base, messages, options: { model: 'other' } })).not.toBe(
+            plain
+        );
+        expect(await cacheKey({ ...base, messages, schema: { type: 'object' } })).not.toBe(
+            plain
+        );
+    });
+
+    it('changes with the tools on offer, and only when there are some', async () => {
+        const plain = await cacheKey({ ...base, messages });
+        const tool = { name: 'search', description: 'Search', parameters: { type: 'object' } };
+
+        expect(await cacheKey({ ...base, messages, tools: undefined })).toBe(plain);
+        expect(await cacheKey({ ...base, messages, tools: [tool] })).not.toBe(plain);
+    });
+
+    it('ignores options that do not affect the response', async () => {
+        const plain = await cacheKey({ ...base, messages });
+        const withTransport = await cacheKey({
+            ...base,
+            messages,
+            options: { timeout: 1000, retries: 3, metadata: { runId: 'x' } },
+        });
+
+        expect(withTransport).toBe(plain);
+    });
+});
+
+describe('MemoryCache', () => {
+    it('evicts the least recently used entry', async () => {
+        const cache = new MemoryCache({ maxEntries: 2 });
+        await cache.set('a', 1);
+        await cache.set('b', 2);
+        await cache.get('a');
+        await cache.set('c', 3);
+
+        expect(await cache.get('a')).toBe(1);
+        expect(await cache.get('b')).toBeUndefined();
+        expect(await cache.get('c')).toBe(3);
+        expect(cache.size).toBe(2);
+    });
+
+    it('hands out copies, so changing a hit does not change the next', async () => {
+        const cache = new MemoryCache();
+        const stored = { answer: 'Paris', tags: ['capital'] };
+        await cache.set('a', stored);
+        stored.tags.push('changed before the hit');
+
+        const hit = (await cache.get('a')) as typeof stored;
+        hit.answer = 'Lyon';
+        hit.tags.push('changed after the hit');
+
+        expect(await cache.get('a')).toEqual({ answer: 'Paris', tags: ['capital'] });
+    });
+});
+
+describe('DiskCache', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'ts-dspy-cache-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it.each(['cache.jsonl', 'cache.json'])(
+        'persists entries across instances (%s)',
+        async (name) => {
+            const path = join(dir, name);
+            await new DiskCache({ path }).set('k', { answer: 'Paris' });
+
+            expect(await new DiskCache({ path }).get('k')).toEqual({ answer: 'Paris' });
+        }
+    );
+
+    it.each(['cache.jsonl', 'cache.json'])(
+        'hands out copies, so changing a hit changes neither the next nor the file (%s)',
+        async (name) => {
+            const path = join(dir, name);
+            const cache = new DiskCache({ path });
+            const stored = { answer: 'Paris' };
+            await cache.set('k', stored);
+            stored.answer = 'changed before the hit';
+
+            const hit = (await cache.get('k')) as typeof stored;
+            hit.answer = 'changed after the hit';
+            await cache.set('other', 'x');
+
+            expect(await cache.get('k')).toEqual({ answer: 'Paris' });
+            expect(await new DiskCache({ path }).get('k')).toEqual({ answer: 'Paris' });
+        }
+    );
+
+    it('creates the directory of a nested path that does not exist yet', async () => {
+        const path = join(dir, 'nested', '.cache', 'lm.jsonl');
+        await new DiskCache({ path }).set('k', 'ok');
+
+        expect(await new DiskCache({ path }).get('k')).toBe('ok');
+    });
+
+    it('lets a later line override an earlier one in JSONL', async () => {
+        const path = join(dir, 'cache.jsonl');
+        const cache = new DiskCache({ path });
+        await cache.set('k', 'first');
+        await cache.set('k', 'second');
+
+        expect(await new DiskCache({ path }).get('k')).toBe('second');
+        expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(2);
+    });
+
+    it('skips a truncated trailing line', async () => {
+        const path = join(dir, 'cache.jsonl');
+        await new DiskCache({ path }).set('k', 'ok');
+        const { appendFile } = await import('node:fs/promises');
+        await appendFile(path, '{"key":"broken","val');
+
+        expect(await new DiskCache({ path }).get('k')).toBe('ok');
+    });
+
+    it('writes a readable object in JSON format', async () => {
+        const path = join(dir, 'cache.json');
+        await new DiskCache({ path }).set('k', 'v');
+
+        expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ k: 'v' });
+    });
+});
+
+describe('BaseLM caching', () => {
+    afterEach(() => {
+        configure({ cache: false });
+    });
+
+    it('does not cache unless configured to', async () => {
+        const lm = new MockLM({ responses: ['one', 'two'] });
+
+        expect(await lm.generate('Hi')).toBe('one');
+        expect(await lm.generate('Hi')).toBe('two');
+    });
+
+    it('answers a repeated request from the cache', async () => {
+        configure({ cache: true });
+        const lm = new MockLM({ responses: ['one', 'two'] });
+
+        expect(await lm.generate('Hi')).toBe('one');
+        expect(await lm.generate('Hi')).toBe('one');
+        expect(lm.calls).toHaveLength(1);
+        expect(lm.getUsage()).toMatchObject({ requestCount: 1, cacheHits: 1 });
+    });
+
+    it('misses when the sampling options differ', async () => {
+        configure({ cache: true });
+        const lm = new MockLM({ responses: ['one', 'two'] });
+
+        await lm.generate('Hi', { temperature: 0 });
+        expect(await lm.generate('Hi', { temperature: 1 })).toBe('two');
+    });
+
+    it('can be bypassed per call', async () => {
+        configure({ cache: true });
+        const lm = new MockLM({ responses: ['one', 'two'] });
+
+        await lm.generate('Hi');
+        expect(await lm.generate('Hi', { cache: false })).toBe('two');
+    });
+
+    it('caches structured responses', async () => {
+        configure({ cache: true });
+        const lm = new MockLM({
+            structuredResponses: [{ answer: 'Paris' }, { answer: 'Lyon' }],
+            capabilities: { supportsStructuredOutput: true },
+        });
+        const predict = new Predict('question -> answer', lm);
+
+        await predict.forward({ question: 'Capital of France?' });
+        const second = await predict.forward({ question: 'Capital of France?' });
+
+        expect(second.answer).toBe('Paris');
+        expect(lm.structuredCalls).toHaveLength(1);
+    });
+
+    it('returns the response when the store cannot save it', async () => {
+        const store: CacheStore = {
+            get: async () => undefined,
+            set: async () => {
+                throw new Error('disk full');
+            },
+            delete: async () => {},
+            clear: async () => {},
+        };
+        configure({ cache: store });
+        const lm = new MockLM({ responses: ['one'] });
+
+        expect(await lm.generate('Hi')).toBe('one');
+        expect(lm.getUsage().requestCount).toBe(1);
+    });
+
+    it('uses a custom store', async () => {
+        const stored = new Map<string, unknown>();
+        const store: CacheStore = {
+            get: async (key) => stored.get(key),
+            set: async (key, value) => void stored.set(key, value),
+            delete: async (key) => void stored.delete(key),
+            clear: async () => stored.clear(),
+        };
+        configure({ cache: store });
+
+        await new MockLM({ responses: ['one'] }).generate('Hi');
+
+        expect([...stored.values()]).toEqual(['one']);
+    });
+});
@@ -0,0 +1,270 @@
+import type * as FsPromises from 'node:fs/promises';
+import type { ChatMessage, LLMCallOptions, ToolSpec } from '../types/language-model';
+
+/**
+ * Storage backend for cached model responses.
+ *
+ * Values are whatever a provider returned — a string from `chat`, a parsed
+ * object from `generateStructured`, a `ChatResponse` from `chatWithTools` — and
+ * are always JSON-serializable. Methods
+ * are async so a store can sit on a file, Redis, or anything else.
+ */
+export interface CacheStore {
+    get(key: string): Promise<unknown | undefined>;
+    set(key: string, value: unknown): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Sampling options that change what a model returns. Everything else on
+ * `LLMCallOptions` — timeouts, retries, metadata — affects how a request is made,
+ * not its answer, so it is left out of the key.
+ */
+const KEYED_OPTIONS = [
+    'model',
+    'temperature',
+    'maxTokens',
+    'stopSequences',
+    'topP',
+    'frequencyPenalty',
+    'presencePenalty',
+] as const satisfies ReadonlyArray<keyof LLMCallOptions>;
+
+/** What identifies one model request for caching purposes. */
+export interface CacheKeyParts {
+    provider: string;
+    model: string;
+    messages: ChatMessage[];
+    /** JSON Schema for structured requests; absent for plain chat. */
+    schema?: unknown;
+    /** Tools on offer, for `chatWithTools` requests. */
+    tools?: ToolSpec[];
+    options?: LLMCallOptions;
+}
+
+/**
+ * Derive a cache key from a request.
+ *
+ * The parts are serialized with sorted object keys, so two requests that differ
+ * only in property order share an entry, then hashed with SHA-256 to keep keys a
+ * fixed size no matter how long the prompt is.
+ */
+export async function cacheKey(parts: CacheKeyParts): Promise<string> {
+    const options: Record<string, unknown> = {};
+    for (const name of KEYED_OPTIONS) {
+        if (parts.options?.[name] !== undefined) {
+            options[name] = parts.options[name];
+        }
+    }
+
+    const canonical = stableStringify({
+        provider: parts.provider,
+        model: parts.options?.model ?? parts.model,
+        messages: parts.messages,
+        schema: parts.schema ?? null,
+        // Only when present, so keys for requests without tools are unchanged.
+        ...(parts.tools ? { tools: parts.tools } : {}),
+        options,
+    });
+
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+    return Array.from(new Uint8Array(digest), (byte) =>
+        byte.toString(16).padStart(2, '0')
+    ).join('');
+}
+
+function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, inner) => {
+        if (inner === null || typeof inner !== 'object' || Array.isArray(inner)) {
+            return inner;
+        }
+        return Object.fromEntries(
+            Object.keys(inner)
+                .sort()
+                .map((key) => [key, (inner as Record<string, unknown>)[key]])
+        );
+    });
+}
+
+export interface MemoryCacheOptions {
+    /** Entries kept before the least recently used is evicted. Defaults to 1000. */
+    maxEntries?: number;
+}
+
+/**
+ * In-process LRU cache. Entries live as long as the process does. Values are
+ * copied in and out, so a caller that changes a result does not change the
+ * next hit, just as with {@link DiskCache}.
+ */
+export class MemoryCache implements CacheStore {
+    private readonly entries = new Map<string, unknown>();
+    private readonly maxEntries: number;
+
+    constructor(options: MemoryCacheOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 1000;
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    async get(key: string): Promise<unknown | undefined> {
+        if (!this.entries.has(key)) return undefined;
+
+        // Map iteration follows insertion order, so re-inserting marks the entry
+        // as most recently used.
+        const value = this.entries.get(key);
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return structuredClone(value);
+    }
+
+    async set(key: string, value: unknown): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, structuredClone(value));
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+export interface DiskCacheOptions {
+    /** File to read and write. Created on first write, with its directory, if it does not exist. */
+    path: string;
+    /**
+     * `jsonl` appends one line per entry, which is cheap to write and survives a
+     * crash mid-run; `json` rewrites a single object on every change, which is
+     * easier to read and diff. Defaults to `jsonl` unless `path` ends in `.json`.
+     */
+    format?: 'json' | 'jsonl';
+}
+
+/**
+ * File-backed cache, for keeping responses across runs — rerunning an
+ * evaluation should not pay for the same calls twice.
+ *
+ * The file is read once, on first access, and held in memory from then on.
+ * Values are copied in and out, so a caller that changes a result changes
+ * neither the next hit nor what is written to disk. `node:fs` is imported lazily so that `@ts-dspy/core` itself still loads in
+ * runtimes without a filesystem.
+ */
+export class DiskCache implements CacheStore {
+    private readonly path: string;
+    private readonly format: 'json' | 'jsonl';
+    private entries?: Map<string, unknown>;
+    private loading?: Promise<Map<string, unknown>>;
+    /** Writes are chained so concurrent `set` calls cannot interleave on disk. */
+    private writes: Promise<void> = Promise.resolve();
+    private directoryCreated = false;
+
+    constructor(options: DiskCacheOptions) {
+        this.path = options.path;
+        this.format = options.format ?? (options.path.endsWith('.json') ? 'json' : 'jsonl');
+    }
+
+    async get(key: string): Promise<unknown | undefined> {
+        const entries = await this.load();
+        return structuredClone(entries.get(key));
+    }
+
+    async set(key: string, value: unknown): Promise<void> {
+        const entries = await this.load();
+        entries.set(key, structuredClone(value));
+
+        if (this.format === 'jsonl') {
+            await this.write((fs) =>
+                fs.appendFile(this.path, JSON.stringify({ key, value }) + '\n', 'utf8')
+            );
+        } else {
+            await this.rewrite();
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        const entries = await this.load();
+        if (entries.delete(key)) {
+            await this.rewrite();
+        }
+    }
+
+    async clear(): Promise<void> {
+        const entries = await this.load();
+        entries.clear();
+        await this.rewrite();
+    }
+
+    private load(): Promise<Map<string, unknown>> {
+        if (this.entries) return Promise.resolve(this.entries);
+        this.loading ??= this.read().then((entries) => (this.entries = entries));
+        return this.loading;
+    }
+
+    private async read(): Promise<Map<string, unknown>> {
+        const fs = await import('node:fs/promises');
+
+        let text: string;
+        try {
+            text = await fs.readFile(this.path, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+            throw error;
+        }
+
+        if (this.format === 'json') {
+            return text.trim() === '' ? new Map() : new Map(Object.entries(JSON.parse(text)));
+        }
+
+        const entries = new Map<string, unknown>();
+        for (const line of text.split('\n')) {
+            if (line.trim() === '') continue;
+            try {
+                const { key, value } = JSON.parse(line) as { key: string; value: unknown };
+                // Later lines win, so an appended entry overrides an older one.
+                entries.set(key, value);
+            } catch {
+                // A line truncated by a crash mid-write is skipped, not fatal.
+            }
+        }
+        return entries;
+    }
+
+    private async rewrite(): Promise<void> {
+        const entries = this.entries ?? new Map();
+        const text =
+            this.format === 'json'
+                ? JSON.stringify(Object.fromEntries(entries), null, 2)
+                : Array.from(
+                      entries,
+                      ([key, value]) => JSON.stringify({ key, value }) + '\n'
+                  ).join('');
+        await this.write((fs) => fs.writeFile(this.path, text, 'utf8'));
+    }
+
+    private write(operation: (fs: typeof FsPromises) => Promise<void>): Promise<void> {
+        // A failed write is reported to its own caller; it must not wedge the chain.
+        const next = this.writes
+            .catch(() => undefined)
+            .then(async () => {
+                const fs = await import('node:fs/promises');
+                if (!this.directoryCreated) {
+                    const { dirname } = await import('node:path');
+                    await fs.mkdir(dirname(this.path), { recursive: true });
+                    this.directoryCreated = true;
+                }
+                await operation(fs);
+            });
+        this.writes = next;
+        return next;
+    }
+}
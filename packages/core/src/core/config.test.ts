@@ -1,4 +1,13 @@
-import { configure, getDefaultLM, isCacheEnabled, isTracingEnabled } from './config';
+import {
+    configure,
+    withConfig,
+    context,
+    getDefaultLM,
+    getCache,
+    isCacheEnabled,
+    isTracingEnabled,
+} from './config';
+import { MemoryCache } from './cache';
 import { Predict } from '../modules/predict';
 import { MockLM } from '../test-utils';
 
@@ -44,3 +53,74 @@ describe('configure', () => {
         expect(isTracingEnabled()).toBe(false);
     });
 });
+
+describe('withConfig', () => {
+    afterEach(() => {
+        configure({ cache: false, tracing: false });
+    });
+
+    it('overrides the default model inside the scope only', async () => {
+        const globalLM = new MockLM();
+        const scopedLM = new MockLM();
+        configure({ lm: globalLM });
+
+        const inside = await withConfig({ lm: scopedLM }, async () => getDefaultLM());
+
+        expect(inside).toBe(scopedLM);
+        expect(getDefaultLM()).toBe(globalLM);
+    });
+
+    it('keeps concurrent scopes apart across awaits', async () => {
+        configure({ lm: new MockLM() });
+        const tenantA = new MockLM({ responses: ['answer: from A'] });
+        const tenantB = new MockLM({ responses: ['answer: from B'] });
+        const predict = new Predict('question -> answer');
+
+        const run = (lm: MockLM) =>
+            withConfig({ lm }, async () => {
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                return predict.forward({ question: 'Q' });
+            });
+
+        const [a, b] = await Promise.all([run(tenantA), run(tenantB)]);
+
+        expect(a.answer).toBe('from A');
+        expect(b.answer).toBe('from B');
+    });
+
+    it('resolves the model when a module is called, not when it is built', async () => {
+        const predict = new Predict('question -> answer');
+        const lm = new MockLM({ responses: ['answer: late'] });
+
+        const result = await withConfig({ lm }, () => predict.forward({ question: 'Q' }));
+
+        expect(result.answer).toBe('late');
+    });
+
+    it('lets inner scopes inherit what they do not set', () => {
+        const lm = new MockLM();
+
+        withConfig({ lm, tracing: true }, () => {
+            withConfig({ cache: true }, () => {
+                expect(getDefaultLM()).toBe(lm);
+                expect(isTracingEnabled()).toBe(true);
+                expect(isCacheEnabled()).toBe(true);
+            });
+            expect(isCacheEnabled()).toBe(false);
+        });
+    });
+
+    it('can turn a globally enabled cache off for one scope', () => {
+        const store = new MemoryCache();
+        configure({ cache: store });
+
+        withConfig({ cache: false }, () => {
+            expect(getCache()).toBeUndefined();
+        });
+        expect(getCache()).toBe(store);
+    });
+
+    it('returns what the callback returns', () => {
+        expect(context({ tracing: true }, () => 42)).toBe(42);
+    });
+});
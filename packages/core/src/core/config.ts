@@ -1,9 +1,42 @@
+import type { AsyncLocalStorage } from 'node:async_hooks';
 import { type ILanguageModel } from '../types/language-model';
+import { MemoryCache, type CacheStore } from './cache';
+import { createAsyncContext, requireAsyncContext } from '../utils/async-context';
+
+export interface ConfigOptions {
+    lm?: ILanguageModel;
+    /**
+     * `true` installs an in-memory LRU; pass a {@link CacheStore} such as
+     * `DiskCache` to choose the backend, or `false` to turn caching off.
+     */
+    cache?: boolean | CacheStore;
+    tracing?: boolean;
+    /**
+     * Cancels every model call in the scope, as if passed to each. Only for
+     * {@link withConfig}: a process-wide signal could only be aborted once.
+     */
+    signal?: AbortSignal;
+    /** A deadline for every model call in the scope. Only for {@link withConfig}. */
+    deadline?: number;
+}
+
+/** Settings overridden by one {@link withConfig} scope, already merged with any enclosing scope. */
+interface ConfigScope {
+    lm?: ILanguageModel;
+    /** `null` means caching was turned off in this scope. */
+    cache?: CacheStore | null;
+    tracing?: boolean;
+    /** Every signal from this scope and those enclosing it, combined. */
+    signal?: AbortSignal;
+    /** The earliest deadline of this scope and those enclosing it. */
+    deadline?: number;
+}
 
 class DSPyConfig {
     private static instance: DSPyConfig;
+    private static scopes?: AsyncLocalStorage<ConfigScope> = createAsyncContext<ConfigScope>();
     private _defaultLM?: ILanguageModel;
-    private _cache: boolean = true;
+    private _cache?: CacheStore;
     private _tracing: boolean = false;
 
     private constructor() {}
@@ -15,37 +48,111 @@ class DSPyConfig {
         return DSPyConfig.instance;
     }
 
-    static configure(options: {
-        lm?: ILanguageModel;
-        cache?: boolean;
-        tracing?: boolean;
-    }): void {
+    /**
+     * Set process-wide defaults. To change settings for one request or tenant
+     * without affecting concurrent work, use {@link withConfig} instead.
+     *
+     * Caching is off by default: with it on, repeating an identical request —
+     * same prompt, model, and sampling options — returns the first response
+     * instead of sampling again.
+     */
+    static configure(options: ConfigOptions): void {
+        if (options.signal || options.deadline !== undefined) {
+            throw new Error(
+                'signal and deadline apply to one scope of work: pass them to withConfig(), not configure().'
+            );
+        }
         const config = DSPyConfig.getInstance();
         if (options.lm) config._defaultLM = options.lm;
-        if (options.cache !== undefined) config._cache = options.cache;
+        if (options.cache !== undefined) {
+            config._cache = resolveCache(options.cache, config._cache);
+        }
         if (options.tracing !== undefined) config._tracing = options.tracing;
     }
 
+    /**
+     * Run `fn` with `options` overriding the configured defaults for everything
+     * it does, including work it awaits. Concurrent calls each see their own
+     * settings, and scopes nest: an inner scope inherits what it does not set.
+     */
+    static withConfig<T>(options: ConfigOptions, fn: () => T): T {
+        const storage = requireAsyncContext(
+            DSPyConfig.scopes,
+            'withConfig',
+            'Use configure() instead.'
+        );
+
+        const outer = storage.getStore() ?? {};
+        const scope: ConfigScope = { ...outer };
+        if (options.lm) scope.lm = options.lm;
+        if (options.cache !== undefined) {
+            scope.cache = resolveCache(options.cache, DSPyConfig.getCache()) ?? null;
+        }
+        if (options.tracing !== undefined) scope.tracing = options.tracing;
+        // Cancellation only tightens: an inner scope cannot outlive its outer one.
+        if (options.signal) {
+            scope.signal = outer.signal
+                ? AbortSignal.any([outer.signal, options.signal])
+                : options.signal;
+        }
+        if (options.deadline !== undefined) {
+            scope.deadline = Math.min(options.deadline, outer.deadline ?? Infinity);
+        }
+
+        return storage.run(scope, fn);
+    }
+
+    /** The signal and deadline set by the enclosing {@link withConfig} scopes, if any. */
+    static getCancellation(): { signal?: AbortSignal; deadline?: number } {
+        const scope = DSPyConfig.currentScope();
+        return { signal: scope?.signal, deadline: scope?.deadline };
+    }
+
     static getDefaultLM(): ILanguageModel {
-        const config = DSPyConfig.getInstance();
-        if (!config._defaultLM) {
+        const lm = DSPyConfig.currentScope()?.lm ?? DSPyConfig.getInstance()._defaultLM;
+        if (!lm) {
             throw new Error(
                 'No default language model configured. Call configure({ lm: ... }) first.'
             );
         }
-        return config._defaultLM;
+        return lm;
     }
 
-    static isCacheEnabled(): boolean {
+    static getCache(): CacheStore | undefined {
+        const scoped = DSPyConfig.currentScope()?.cache;
+        if (scoped !== undefined) return scoped ?? undefined;
         return DSPyConfig.getInstance()._cache;
     }
 
+    static isCacheEnabled(): boolean {
+        return DSPyConfig.getCache() !== undefined;
+    }
+
     static isTracingEnabled(): boolean {
-        return DSPyConfig.getInstance()._tracing;
+        return DSPyConfig.currentScope()?.tracing ?? DSPyConfig.getInstance()._tracing;
+    }
+
+    private static currentScope(): ConfigScope | undefined {
+        return DSPyConfig.scopes?.getStore();
     }
 }
 
+function resolveCache(
+    cache: boolean | CacheStore,
+    current: CacheStore | undefined
+): CacheStore | undefined {
+    // Re-enabling keeps whatever store is already active rather than emptying it.
+    if (cache === true) return current ?? new MemoryCache();
+    if (cache === false) return undefined;
+    return cache;
+}
+
 export const configure = DSPyConfig.configure;
+export const withConfig = DSPyConfig.withConfig;
+/** Alias for {@link withConfig}, mirroring DSPy's `dspy.context`. */
+export const context = DSPyConfig.withConfig;
 export const getDefaultLM = DSPyConfig.getDefaultLM;
+export const getCache = DSPyConfig.getCache;
 export const isCacheEnabled = DSPyConfig.isCacheEnabled;
 export const isTracingEnabled = DSPyConfig.isTracingEnabled;
+export const getCancellation = DSPyConfig.getCancellation;
@@ -1,3 +1,5 @@
+import type { PendingToolCall, SavedTrajectory, TrajectoryStep } from '../types/module';
+
 /** Base class for every error thrown by ts-dspy. */
 export class TsDspyError extends Error {
     constructor(message: string, options?: { cause?: unknown }) {
@@ -56,3 +58,53 @@ export class LMError extends TsDspyError {
         this.status = options?.status;
     }
 }
+
+/**
+ * Thrown when an `assert` inside a program fails and no retries are left — or
+ * at once, outside `withAssertions`, where there are none.
+ */
+export class AssertionFailedError extends TsDspyError {
+    /** The assertion's message, which retries showed the model as feedback. */
+    readonly feedback: string;
+    /** The output the assertion rejected: that of the last predictor call before it. */
+    readonly output?: Record<string, any>;
+    /** How many times the program ran, counting the first. */
+    readonly attempts: number;
+
+    constructor(feedback: string, options: { output?: Record<string, any>; attempts: number }) {
+        super(`Assertion failed: ${feedback}`);
+        this.feedback = feedback;
+        this.output = options.output;
+        this.attempts = options.attempts;
+    }
+}
+
+/**
+ * Thrown when a `RespAct` loop runs out of steps before a valid final answer.
+ * Carries what the loop did, to audit it or to resume it with more steps.
+ */
+export class MaxStepsExceededError extends TsDspyError {
+    readonly trajectory: TrajectoryStep[];
+
+    constructor(message: string, trajectory: TrajectoryStep[]) {
+        super(message);
+        this.trajectory = trajectory;
+    }
+}
+
+/**
+ * Thrown when a `RespAct` loop stops at a tool call that needs approval and
+ * nothing was there to give it. Save `saved`, get a decision on `pending`, and
+ * pass both to `RespAct.resume` to carry on.
+ */
+export class ToolApprovalRequiredError extends TsDspyError {
+    readonly pending: PendingToolCall;
+    /** The run so far, ending at `pending`: JSON-serializable. */
+    readonly saved: SavedTrajectory;
+
+    constructor(message: string, saved: SavedTrajectory & { pending: PendingToolCall }) {
+        super(message);
+        this.pending = saved.pending;
+        this.saved = saved;
+    }
+}
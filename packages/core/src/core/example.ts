@@ -40,6 +40,11 @@ export class Example {
         return newExample;
     }
 
+    /** The keys set with {@link withInputs}, or `undefined` if none were. */
+    getInputKeys(): string[] | undefined {
+        return this._inputKeys ? [...this._inputKeys] : undefined;
+    }
+
     getInputs(): Record<string, any> {
         if (!this._inputKeys) {
             throw new Error('Input keys not specified. Use withInputs() first.');
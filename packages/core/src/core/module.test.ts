@@ -0,0 +1,176 @@
+import { Module } from './module';
+import { Example } from './example';
+import { Prediction } from './prediction';
+import { Predict } from '../modules/predict';
+import { ChainOfThought } from '../modules/chain-of-thought';
+import { LMError, ValidationError } from './errors';
+import { MockLM } from '../test-utils';
+
+class Router extends Module {
+    classify = new Predict('question -> topic');
+    experts = new Map([
+        ['math', new ChainOfThought('question -> answer')],
+        ['history', new Predict('question -> answer')],
+    ]);
+    fallbacks = [new Predict('question -> answer')];
+    extras = { check: new Predict('answer -> ok: boolean') };
+    // The same instance again: listed once, under its first path.
+    alias = this.classify;
+
+    async forward(inputs: Record<string, any>): Promise<Prediction> {
+        return this.classify.forward(inputs);
+    }
+}
+
+class Outer extends Module {
+    inner = new Router();
+
+    async forward(inputs: Record<string, any>): Promise<Prediction> {
+        return this.inner.forward(inputs);
+    }
+}
+
+describe('Module traversal', () => {
+    it('finds predictors in properties, maps, arrays and plain objects', () => {
+        expect(new Router().namedPredictors().map(([name]) => name)).toEqual([
+            'classify',
+            'experts["math"]',
+            'experts["history"]',
+            'fallbacks[0]',
+            'extras.check',
+        ]);
+    });
+
+    it('lists sub-modules with nested paths, starting with itself', () => {
+        const outer = new Outer();
+        const names = outer.namedSubModules().map(([name]) => name);
+
+        expect(names.slice(0, 3)).toEqual(['self', 'inner', 'inner.classify']);
+        expect(outer.predictors()).toHaveLength(5);
+        expect(new Predict('q -> a').namedPredictors().map(([name]) => name)).toEqual(['self']);
+    });
+
+    it('sets the model on every module', async () => {
+        const router = new Router();
+        const lm = new MockLM({ responses: ['topic: math'] });
+
+        router.setLM(lm);
+
+        expect(router.predictors().every((predictor) => predictor.getLM() === lm)).toBe(true);
+        await router.forward({ question: 'q' });
+        expect(lm.calls).toHaveLength(1);
+    });
+});
+
+describe('Module copies', () => {
+    it('deep-copies modules but shares models and examples', () => {
+        const lm = new MockLM();
+        const router = new Router();
+        router.setLM(lm);
+        const demo = new Example({ question: 'q', topic: 't' });
+        router.classify.demos = [demo];
+
+        const copy = router.deepCopy();
+
+        expect(copy).toBeInstanceOf(Router);
+        expect(copy.classify).not.toBe(router.classify);
+        expect(copy.alias).toBe(copy.classify);
+        expect(copy.experts.get('math')).toBeInstanceOf(ChainOfThought);
+        expect(copy.experts.get('math')).not.toBe(router.experts.get('math'));
+        expect(copy.classify.moduleId).not.toBe(router.classify.moduleId);
+        expect(copy.classify.getLM()).toBe(lm);
+        expect(copy.classify.demos[0]).toBe(demo);
+
+        copy.classify.demos.push(new Example({ question: 'q2' }));
+        copy.extras.check.instructions = 'Be strict.';
+        expect(router.classify.demos).toHaveLength(1);
+        expect(router.extras.check.instructions).toBeUndefined();
+    });
+
+    it('resets demos and instructions on a reset copy only', () => {
+        const router = new Router();
+        router.fallbacks[0].demos = [new Example({ question: 'q', answer: 'a' })];
+        router.fallbacks[0].instructions = 'Be brief.';
+
+        const copy = router.resetCopy();
+
+        expect(copy.fallbacks[0].demos).toEqual([]);
+        expect(copy.fallbacks[0].instructions).toBeUndefined();
+        expect(router.fallbacks[0].demos).toHaveLength(1);
+    });
+});
+
+/** Echoes `n` after `delay` ms, failing on the values it is told to. */
+class Slow extends Module {
+    inFlight = 0;
+    maxInFlight = 0;
+
+    async forward(inputs: Record<string, any>): Promise<Prediction<{ n: number }>> {
+        this.inFlight++;
+        this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+        await new Promise((resolve) => setTimeout(resolve, inputs.delay ?? 0));
+        this.inFlight--;
+        if (inputs.fail === 'validation') {
+            throw new ValidationError(
+                [{ field: 'n', expected: 'int', received: '?', message: 'bad' }],
+                'n: ?'
+            );
+        }
+        if (inputs.fail === 'lm') throw new LMError('mock', 'rate limited', { status: 429 });
+        if (inputs.fail === 'bug') throw new TypeError('not a model failure');
+        return new Prediction({ n: inputs.n });
+    }
+}
+
+describe('Module.batch', () => {
+    it('returns results in input order under bounded concurrency', async () => {
+        const module = new Slow();
+        const inputs = [30, 5, 20, 1, 10, 2].map((delay, n) => ({ n, delay }));
+        const progress: number[] = [];
+
+        const results = await module.batch(inputs, {
+            concurrency: 2,
+            onProgress: (done, total) => progress.push(done / total),
+        });
+
+        expect(results.map((result) => result.get('n'))).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(module.maxInFlight).toBe(2);
+        expect(progress).toHaveLength(6);
+        expect(progress.at(-1)).toBe(1);
+    });
+
+    it('rejects on the first failure by default', async () => {
+        const module = new Slow();
+        await expect(
+            module.batch([{ n: 0 }, { n: 1, fail: 'lm' }, { n: 2 }], { concurrency: 1 })
+        ).rejects.toBeInstanceOf(LMError);
+    });
+
+    it('captures model and validation failures per item when asked', async () => {
+        const results = await new Slow().batch(
+            [{ n: 0 }, { n: 1, fail: 'validation' }, { n: 2, fail: 'lm' }],
+            { returnFailures: true }
+        );
+
+        expect(results[0]).toBeInstanceOf(Prediction);
+        expect(results[1]).toBeInstanceOf(ValidationError);
+        expect(results[2]).toBeInstanceOf(LMError);
+    });
+
+    it('still rejects on other errors when capturing failures', async () => {
+        await expect(
+            new Slow().batch([{ n: 0, fail: 'bug' }], { returnFailures: true })
+        ).rejects.toBeInstanceOf(TypeError);
+    });
+
+    it('passes call options to every forward', async () => {
+        const lm = new MockLM({ respond: () => 'answer: ok' });
+        await new Predict('question -> answer', lm).batch(
+            [{ question: 'a' }, { question: 'b' }],
+            {
+                callOptions: { temperature: 0.5 },
+            }
+        );
+        expect(lm.calls.map((call) => call.options?.temperature)).toEqual([0.5, 0.5]);
+    });
+});
@@ -1,15 +1,83 @@
 import { type Signature } from './signature';
 import { type Prediction } from './prediction';
 import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
-import { getDefaultLM } from './config';
+import type { RepairAttempt, TraceEntry } from '../types/module';
+import { getDefaultLM, isTracingEnabled } from './config';
+import { recordTrace, usageBetween } from './trace';
+import { recordPredictorCall } from './assertions';
+import { LMError, ValidationError } from './errors';
+import { STATE_VERSION, migrateState, type PredictorState, type ProgramState } from './state';
+import type { Predict } from '../modules/predict';
+import { mapConcurrent } from '../utils/concurrency';
+
+let nextModuleId = 0;
+
+/** What a traced call reports back, beyond the prediction itself. */
+export interface TracedCall<P extends Prediction<any>> {
+    prediction: P;
+    /** The prompt sent on the call that produced the final output. */
+    prompt: string;
+    /** That call's raw completion, before parsing. */
+    completion: string;
+    /** Earlier completions that failed validation and were re-prompted. */
+    repairs?: RepairAttempt[];
+}
+
+export interface BatchOptions {
+    /** Calls in flight at once. Defaults to 4. */
+    concurrency?: number;
+    /**
+     * Return a `ValidationError` or `LMError` in place of that item's
+     * prediction instead of rejecting the whole batch. Other errors still
+     * reject. Defaults to `false`.
+     */
+    returnFailures?: boolean;
+    /** Called after each item finishes, in completion order. */
+    onProgress?: (done: number, total: number) => void;
+    /** Passed to every `forward` call. */
+    callOptions?: LLMCallOptions;
+}
+
+/** What {@link Module.forward} resolves to for module type `M`. */
+type ForwardResult<M extends Module> = Awaited<ReturnType<M['forward']>>;
 
 export abstract class Module {
-    protected lm: ILanguageModel;
+    /** Identifies this instance in traces, e.g. `Predict_3`. */
+    readonly moduleId: string;
     protected signature?: typeof Signature | string;
+    private explicitLM?: ILanguageModel;
 
+    /**
+     * @param lm Model to use. When omitted, the module uses whichever model is
+     * configured at the time it is called — the innermost `withConfig` scope,
+     * or else the `configure()` default — not the one configured when it was
+     * constructed.
+     */
     constructor(signature?: typeof Signature | string, lm?: ILanguageModel) {
+        this.moduleId = newModuleId(new.target);
         this.signature = signature;
-        this.lm = lm || getDefaultLM();
+        this.explicitLM = lm;
+    }
+
+    /** The signature this module was constructed with, if any. */
+    getSignature(): typeof Signature | string | undefined {
+        return this.signature;
+    }
+
+    /**
+     * The model this module calls: its own, or else the one configured right
+     * now. Throws if neither exists.
+     */
+    getLM(): ILanguageModel {
+        return this.lm;
+    }
+
+    protected get lm(): ILanguageModel {
+        return this.explicitLM ?? getDefaultLM();
+    }
+
+    protected set lm(lm: ILanguageModel) {
+        this.explicitLM = lm;
     }
 
     abstract forward(
@@ -26,4 +94,311 @@ export abstract class Module {
     async __call__(inputs: Record<string, any>, options?: LLMCallOptions): Promise<Prediction> {
         return this.forward(inputs, options);
     }
+
+    /**
+     * Run {@link forward} over many inputs, `concurrency` at a time. Results
+     * come back in input order.
+     *
+     * ```ts
+     * const labels = await classify.batch(rows, { concurrency: 16, returnFailures: true });
+     * const failed = labels.filter((label) => label instanceof Error);
+     * ```
+     *
+     * By default the first failure rejects the batch, and no new calls start
+     * after it.
+     */
+    async batch(
+        inputsList: Array<Record<string, any>>,
+        options: BatchOptions & { returnFailures: true }
+    ): Promise<Array<ForwardResult<this> | ValidationError | LMError>>;
+    async batch(
+        inputsList: Array<Record<string, any>>,
+        options?: BatchOptions
+    ): Promise<Array<ForwardResult<this>>>;
+    async batch(
+        inputsList: Array<Record<string, any>>,
+        options: BatchOptions = {}
+    ): Promise<Array<ForwardResult<this> | ValidationError | LMError>> {
+        type Item = ForwardResult<this> | ValidationError | LMError;
+        let done = 0;
+        return mapConcurrent(
+            inputsList,
+            options.concurrency ?? 4,
+            async (inputs): Promise<Item> => {
+                let result: Item;
+                try {
+                    result = (await this.forward(
+                        inputs,
+                        options.callOptions
+                    )) as ForwardResult<this>;
+                } catch (error) {
+                    const captured =
+                        error instanceof ValidationError || error instanceof LMError;
+                    if (!options.returnFailures || !captured) throw error;
+                    result = error;
+                }
+                options.onProgress?.(++done, inputsList.length);
+                return result;
+            }
+        );
+    }
+
+    /**
+     * Snapshot what optimization tuned — each predictor's demos and
+     * instructions — along with its signature's fields and model name, as
+     * plain JSON-safe data.
+     */
+    dumpState(): ProgramState {
+        const predictors: Record<string, PredictorState> = {};
+        for (const [name, module] of this.namedPredictors() as Array<[string, Module]>) {
+            predictors[name] = module.dumpOwnState()!;
+        }
+        return { version: STATE_VERSION, program: this.constructor.name, predictors };
+    }
+
+    /**
+     * Restore a {@link dumpState} snapshot, from this or an earlier version of
+     * the format, into this program.
+     *
+     * @throws when the snapshot's predictors do not match this program's by
+     * name, or a predictor's signature fields differ from the saved ones.
+     */
+    loadState(state: ProgramState): this {
+        const { predictors } = migrateState(state);
+        const modules = new Map<string, Module>(this.namedPredictors());
+
+        const missing = [...modules.keys()].filter((name) => !(name in predictors));
+        const unknown = Object.keys(predictors).filter((name) => !modules.has(name));
+        if (missing.length > 0 || unknown.length > 0) {
+            throw new Error(
+                `Saved state does not match this program: ` +
+                    [
+                        missing.length > 0 ? `no state for ${missing.join(', ')}` : '',
+                        unknown.length > 0 ? `no predictor named ${unknown.join(', ')}` : '',
+                    ]
+                        .filter(Boolean)
+                        .join('; ') +
+                    '.'
+            );
+        }
+
+        for (const [name, module] of modules) {
+            module.loadOwnState(name, predictors[name]);
+        }
+        return this;
+    }
+
+    /** Write {@link dumpState} to `path` as JSON. Needs Node. */
+    async save(path: string): Promise<void> {
+        const fs = await import('node:fs/promises');
+        await fs.writeFile(path, `${JSON.stringify(this.dumpState(), null, 2)}\n`);
+    }
+
+    /**
+     * Construct a program with `args` and load the state saved at `path` into
+     * it. Needs Node.
+     *
+     * ```ts
+     * await compiled.save('qa.json');
+     * const qa = await Predict.load('qa.json', AnswerQuestion);
+     * const pipeline = await MyPipeline.load('pipeline.json');
+     * ```
+     */
+    static async load<C extends new (...args: any[]) => Module>(
+        this: C,
+        path: string,
+        ...args: ConstructorParameters<C>
+    ): Promise<InstanceType<C>> {
+        const fs = await import('node:fs/promises');
+        const state = JSON.parse(await fs.readFile(path, 'utf8'));
+        return new this(...args).loadState(state) as InstanceType<C>;
+    }
+
+    /**
+     * This module and every module reachable from it through properties,
+     * arrays, maps and plain objects, with their paths: `self` for this one,
+     * then e.g. `draft`, `steps[1]` or `experts["math"]`. A module referenced
+     * more than once is listed once, under the first path found.
+     */
+    namedSubModules(): Array<[string, Module]> {
+        return namedModules(this);
+    }
+
+    /**
+     * The `Predict` instances among {@link namedSubModules} — including
+     * `ChainOfThought` and other subclasses — which hold the demos and
+     * instructions optimizers tune.
+     */
+    namedPredictors(): Array<[string, Predict]> {
+        return namedModules(this).filter((entry): entry is [string, Predict] =>
+            entry[1].isPredictor()
+        );
+    }
+
+    /** The predictors from {@link namedPredictors}, without their paths. */
+    predictors(): Predict[] {
+        return this.namedPredictors().map(([, predictor]) => predictor);
+    }
+
+    /** Use `lm` for this module and every module inside it. */
+    setLM(lm: ILanguageModel): void {
+        for (const [, module] of namedModules(this)) {
+            module.explicitLM = lm;
+        }
+    }
+
+    /**
+     * A copy of this program whose modules — here and nested in properties,
+     * arrays, maps and plain objects — are all new instances with new
+     * `moduleId`s, so tuning the copy leaves the original alone. Anything
+     * else is shared rather than cloned: models, signatures, and the
+     * `Example`s in demo lists (the lists themselves are copied).
+     */
+    deepCopy(): this {
+        return copyValue(this, new Map()) as this;
+    }
+
+    /** A {@link deepCopy} with every predictor's demos and instructions cleared. */
+    resetCopy(): this {
+        const copy = this.deepCopy();
+        for (const [, module] of namedModules(copy)) {
+            module.resetOwnState();
+        }
+        return copy;
+    }
+
+    /** Whether this module holds tuned state of its own. `Predict` says yes. */
+    protected isPredictor(): boolean {
+        return false;
+    }
+
+    /** Clear what optimization tuned on this module itself. */
+    protected resetOwnState(): void {}
+
+    /**
+     * This module's own tuned state, for modules that have any. `Predict`
+     * overrides it; composite modules hold none themselves.
+     */
+    protected dumpOwnState(): PredictorState | undefined {
+        return undefined;
+    }
+
+    /** Restore what {@link dumpOwnState} returned. `name` is for error messages. */
+    protected loadOwnState(_name: string, _state: PredictorState): void {}
+
+    /**
+     * Run `call` and, when tracing is enabled, attach a {@link TraceEntry} to the
+     * prediction it returns and add it to the global trace history. A
+     * predictor's output is also noted, so a failing `assert` can blame it.
+     */
+    protected async traced<P extends Prediction<any>>(
+        inputs: Record<string, any>,
+        call: () => Promise<TracedCall<P>>
+    ): Promise<P> {
+        if (!isTracingEnabled()) {
+            const { prediction } = await call();
+            if (this.isPredictor()) recordPredictorCall(this, prediction.toObject());
+            return prediction;
+        }
+
+        const timestamp = new Date();
+        const usageBefore = this.lm.getUsage();
+        const { prediction, prompt, completion, repairs } = await call();
+
+        const entry: TraceEntry = {
+            moduleId: this.moduleId,
+            timestamp,
+            duration: Date.now() - timestamp.getTime(),
+            input: { ...inputs },
+            output: prediction.toObject(),
+            rawLMInput: prompt,
+            rawLMOutput: completion,
+            usage: usageBetween(usageBefore, this.lm.getUsage()),
+            ...(repairs?.length ? { repairs } : {}),
+        };
+        prediction.trace = entry;
+        recordTrace(entry);
+        if (this.isPredictor()) recordPredictorCall(this, entry.output);
+        return prediction;
+    }
+}
+
+function newModuleId(moduleClass: { name: string }): string {
+    return `${moduleClass.name}_${++nextModuleId}`;
+}
+
+/** `Object.prototype` or `null`: a literal like `{ math: new Predict(...) }`, not a class instance. */
+function isPlainObject(value: object): boolean {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/** The modules reachable from `root`, with their paths; see {@link Module.namedSubModules}. */
+function namedModules(root: Module): Array<[string, Module]> {
+    const found: Array<[string, Module]> = [];
+    const seen = new Set<unknown>();
+
+    const visit = (value: unknown, path: string): void => {
+        if (value === null || typeof value !== 'object' || seen.has(value)) return;
+        seen.add(value);
+
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => visit(item, `${path}[${index}]`));
+            return;
+        }
+        if (value instanceof Map) {
+            for (const [key, item] of value) {
+                const label = typeof key === 'string' ? JSON.stringify(key) : String(key);
+                visit(item, `${path}[${label}]`);
+            }
+            return;
+        }
+        if (value instanceof Module) {
+            found.push([path || 'self', value]);
+        } else if (!isPlainObject(value)) {
+            return;
+        }
+        for (const [key, child] of Object.entries(value)) {
+            visit(child, path ? `${path}.${key}` : key);
+        }
+    };
+
+    visit(root, '');
+    return found;
+}
+
+/**
+ * Copy modules and the arrays, maps and plain objects that hold them; share
+ * everything else. `copies` maps originals to copies, so shared references
+ * and cycles survive the copy.
+ */
+function copyValue(value: unknown, copies: Map<unknown, unknown>): unknown {
+    if (value === null || typeof value !== 'object') return value;
+    if (copies.has(value)) return copies.get(value);
+
+    if (Array.isArray(value)) {
+        const copy: unknown[] = [];
+        copies.set(value, copy);
+        for (const item of value) copy.push(copyValue(item, copies));
+        return copy;
+    }
+    if (value instanceof Map) {
+        const copy = new Map();
+        copies.set(value, copy);
+        for (const [key, item] of value) copy.set(key, copyValue(item, copies));
+        return copy;
+    }
+    if (!(value instanceof Module) && !isPlainObject(value)) return value;
+
+    const copy = Object.create(Object.getPrototypeOf(value));
+    copies.set(value, copy);
+    for (const key of Reflect.ownKeys(value)) {
+        const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+        if ('value' in descriptor) descriptor.value = copyValue(descriptor.value, copies);
+        Object.defineProperty(copy, key, descriptor);
+    }
+    if (value instanceof Module) {
+        Object.defineProperty(copy, 'moduleId', { value: newModuleId(value.constructor) });
+    }
+    return copy;
 }
@@ -133,6 +133,49 @@ describe('Signature', () => {
             expect(Object.keys(Base.getOutputFields())).toEqual(['answer']);
             expect(Object.keys(Extended.getInputFields())).toEqual(['question']);
         });
+
+        it('prepends an output field on a derived signature', () => {
+            class QA extends Signature {
+                static description = 'Answer the question.';
+
+                @InputField()
+                question!: string;
+
+                @OutputField()
+                answer!: string;
+            }
+
+            const Derived = QA.prependOutputField('reasoning', { description: 'think first' });
+
+            expect(Object.keys(Derived.getOutputFields())).toEqual(['reasoning', 'answer']);
+            expect(Derived.getOutputFields().reasoning).toMatchObject({
+                description: 'think first',
+                type: 'string',
+                required: true,
+            });
+            expect(Object.keys(Derived.getInputFields())).toEqual(['question']);
+            expect(Derived.description).toBe('Answer the question.');
+            expect(Object.keys(QA.getOutputFields())).toEqual(['answer']);
+        });
+
+        it('appendInputField adds an input last, leaving the original untouched', () => {
+            class QA extends Signature {
+                @InputField()
+                question!: string;
+
+                @OutputField()
+                answer!: string;
+            }
+
+            const Derived = QA.appendInputField('context', { description: 'background' });
+
+            expect(Object.keys(Derived.getInputFields())).toEqual(['question', 'context']);
+            expect(Derived.getInputFields().context).toMatchObject({
+                description: 'background',
+            });
+            expect(Object.keys(Derived.getOutputFields())).toEqual(['answer']);
+            expect(Object.keys(QA.getInputFields())).toEqual(['question']);
+        });
     });
 
     describe('decorator mode', () => {
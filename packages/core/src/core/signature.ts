@@ -47,7 +47,15 @@ function defineField(
         owner[symbol] = { ...(owner[symbol] ?? {}) };
     }
 
-    owner[symbol][key] = {
+    owner[symbol][key] = fieldConfig(kind, key, config);
+}
+
+function fieldConfig(
+    kind: 'input' | 'output',
+    key: string,
+    config: Partial<FieldConfig>
+): FieldConfig {
+    return {
         description:
             config.description || `${kind === 'input' ? 'Input' : 'Output'} field: ${key}`,
         prefix: config.prefix,
@@ -79,6 +87,38 @@ export abstract class Signature {
         return (this as any)[OUTPUT_FIELDS] || {};
     }
 
+    /**
+     * A subclass of this signature with one more output field, listed before
+     * the others. Inputs and description are inherited; this class is unchanged.
+     *
+     * ```ts
+     * const WithReasoning = QA.prependOutputField('reasoning', { description: 'step by step' });
+     * ```
+     */
+    static prependOutputField(
+        name: string,
+        config: Partial<FieldConfig> = {}
+    ): typeof Signature {
+        const Derived = class extends this {};
+        Object.defineProperty(Derived, 'name', { value: this.name });
+        (Derived as any)[OUTPUT_FIELDS] = {
+            [name]: fieldConfig('output', name, config),
+            ...this.getOutputFields(),
+        };
+        return Derived;
+    }
+
+    /** Like {@link prependOutputField}, but adds an input field after the others. */
+    static appendInputField(name: string, config: Partial<FieldConfig> = {}): typeof Signature {
+        const Derived = class extends this {};
+        Object.defineProperty(Derived, 'name', { value: this.name });
+        (Derived as any)[INPUT_FIELDS] = {
+            ...this.getInputFields(),
+            [name]: fieldConfig('input', name, config),
+        };
+        return Derived;
+    }
+
     static getPromptFormat(): string {
         const inputs = Object.keys(this.getInputFields());
         const outputs = Object.keys(this.getOutputFields());
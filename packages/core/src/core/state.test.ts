@@ -0,0 +1,140 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Module } from './module';
+import { Example } from './example';
+import { type Prediction } from './prediction';
+import { Signature, InputField, OutputField } from './signature';
+import { STATE_VERSION, migrateState } from './state';
+import { Predict } from '../modules/predict';
+import { ChainOfThought } from '../modules/chain-of-thought';
+import { MockLM } from '../test-utils';
+
+class Answer extends Signature {
+    static description = 'Answer the question.';
+
+    @InputField({ description: 'the question' })
+    question!: string;
+
+    @OutputField({ description: 'the answer', type: 'number' })
+    answer!: number;
+}
+
+class Pipeline extends Module {
+    draft = new Predict('question -> draft', new MockLM());
+    steps = [new ChainOfThought(Answer), new Predict('answer -> check: boolean')];
+
+    async forward(inputs: Record<string, any>): Promise<Prediction> {
+        return this.draft.forward(inputs);
+    }
+}
+
+function tune(pipeline: Pipeline): void {
+    pipeline.draft.demos = [new Example({ question: 'q', draft: 'd' }).withInputs('question')];
+    pipeline.steps[0].instructions = 'Answer with a number.';
+    pipeline.steps[1].demos = [new Example({ answer: 1, check: true })];
+}
+
+describe('program state', () => {
+    it('records demos, instructions, signature fields and model by property path', () => {
+        const pipeline = new Pipeline();
+        tune(pipeline);
+
+        const state = pipeline.dumpState();
+
+        expect(state.version).toBe(STATE_VERSION);
+        expect(state.program).toBe('Pipeline');
+        expect(Object.keys(state.predictors)).toEqual(['draft', 'steps[0]', 'steps[1]']);
+        expect(state.predictors.draft.demos).toEqual([
+            { data: { question: 'q', draft: 'd' }, inputKeys: ['question'] },
+        ]);
+        expect(state.predictors.draft.lm).toEqual({ model: 'mock-model' });
+        expect(state.predictors['steps[0]'].instructions).toBe('Answer with a number.');
+        expect(state.predictors['steps[0]'].signature.outputFields.answer.type).toBe('number');
+        expect(state.predictors['steps[0]'].signature.description).toBe('Answer the question.');
+        expect(state.predictors['steps[1]'].signature.outputFields.check.type).toBe('boolean');
+        expect(JSON.parse(JSON.stringify(state))).toEqual(state);
+    });
+
+    it('round-trips through loadState', () => {
+        const original = new Pipeline();
+        tune(original);
+
+        const restored = new Pipeline().loadState(
+            JSON.parse(JSON.stringify(original.dumpState()))
+        );
+
+        expect(restored.draft.demos[0].getInputs()).toEqual({ question: 'q' });
+        expect(restored.steps[0].instructions).toBe('Answer with a number.');
+        expect(restored.steps[1].demos[0].toObject()).toEqual({ answer: 1, check: true });
+        expect(restored.dumpState()).toEqual(original.dumpState());
+    });
+
+    it('names a lone predictor self', () => {
+        const predict = new Predict('question -> answer', new MockLM());
+        expect(Object.keys(predict.dumpState().predictors)).toEqual(['self']);
+    });
+
+    it('rejects state for a program of a different shape', () => {
+        const state = new Pipeline().dumpState();
+        delete state.predictors['steps[1]'];
+        state.predictors.extra = state.predictors.draft;
+
+        expect(() => new Pipeline().loadState(state)).toThrow(
+            'Saved state does not match this program: no state for steps[1]; no predictor named extra.'
+        );
+    });
+
+    it('rejects state whose signature fields differ', () => {
+        const state = new Predict('question -> answer', new MockLM()).dumpState();
+
+        expect(() =>
+            new Predict('question -> answer: int', new MockLM()).loadState(state)
+        ).toThrow(
+            "Saved state for predictor 'self' has signature question: string -> answer: string, but the program's is question: string -> answer: int."
+        );
+    });
+
+    it('rejects missing and future versions', () => {
+        expect(() => migrateState({ predictors: {} })).toThrow('missing a numeric "version"');
+        expect(() => migrateState({ version: STATE_VERSION + 1, predictors: {} })).toThrow(
+            'newer than this version of ts-dspy supports'
+        );
+    });
+
+    describe('files', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), 'ts-dspy-state-'));
+        });
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true });
+        });
+
+        it('saves JSON and loads it into a newly constructed program', async () => {
+            const path = join(dir, 'pipeline.json');
+            const original = new Pipeline();
+            tune(original);
+            await original.save(path);
+
+            const restored = await Pipeline.load(path);
+
+            expect(JSON.parse(await readFile(path, 'utf8')).version).toBe(STATE_VERSION);
+            expect(restored).toBeInstanceOf(Pipeline);
+            expect(restored.steps[0].instructions).toBe('Answer with a number.');
+        });
+
+        it('loads a saved predictor with constructor arguments', async () => {
+            const path = join(dir, 'answer.json');
+            const original = new Predict(Answer, new MockLM());
+            original.instructions = 'Be exact.';
+            await original.save(path);
+
+            const restored = await Predict.load(path, Answer, new MockLM());
+
+            expect(restored.instructions).toBe('Be exact.');
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { Signature } from './signature';
+import { Example } from './example';
+import type { FieldConfig, ISignature } from '../types/signature';
+import { getOutputFieldConfigs } from '../utils/schema';
+
+/** The state format written by this version of ts-dspy. */
+export const STATE_VERSION = 1;
+
+/** A saved demo: its fields, and which of them are inputs. */
+export interface DemoState {
+    data: Record<string, any>;
+    inputKeys?: string[];
+}
+
+/** Everything tuned on one predictor, plus what it was tuned against. */
+export interface PredictorState {
+    /** Field metadata of the signature, to check the state is loaded into a matching program. */
+    signature: ISignature;
+    /** Instructions set on the predictor, when they override the signature's description. */
+    instructions?: string;
+    demos: DemoState[];
+    /** The model the predictor resolved to when saved. Informational: loading does not change models. */
+    lm?: { model: string };
+}
+
+/** A program's state, as written by `module.save()`. */
+export interface ProgramState {
+    version: number;
+    /** Class name of the saved program, for reference. */
+    program: string;
+    /** Keyed by property path within the program, e.g. `draft` or `steps[1]`; `self` for the program itself. */
+    predictors: Record<string, PredictorState>;
+}
+
+/**
+ * Upgrades from each older version to the next, keyed by the version they
+ * upgrade from. Add one here whenever {@link STATE_VERSION} is bumped.
+ */
+const MIGRATIONS: Record<number, (state: any) => any> = {};
+
+/**
+ * Bring a state written by any earlier version up to {@link STATE_VERSION}.
+ *
+ * @throws when the state has no version, or one newer than this library writes.
+ */
+export function migrateState(state: unknown): ProgramState {
+    let current = state as any;
+    if (!current || typeof current !== 'object' || typeof current.version !== 'number') {
+        throw new Error('Not a saved program state: missing a numeric "version".');
+    }
+    if (current.version > STATE_VERSION) {
+        throw new Error(
+            `Program state version ${current.version} is newer than this version of ts-dspy supports (${STATE_VERSION}). Upgrade ts-dspy to load it.`
+        );
+    }
+    while (current.version < STATE_VERSION) {
+        const migrate = MIGRATIONS[current.version];
+        if (!migrate) {
+            throw new Error(`No migration from program state version ${current.version}.`);
+        }
+        current = migrate(current);
+    }
+    return current as ProgramState;
+}
+
+/** Field metadata of a signature, whether a class or a string like `"question -> answer"`. */
+export function describeSignature(signature: typeof Signature | string): ISignature {
+    if (typeof signature !== 'string') {
+        return {
+            inputFields: signature.getInputFields(),
+            outputFields: signature.getOutputFields(),
+            ...(signature.description ? { description: signature.description } : {}),
+        };
+    }
+
+    const parsed = Signature.parseStringSignature(signature);
+    const inputFields: Record<string, FieldConfig> = {};
+    for (const name of parsed.inputs) {
+        inputFields[name] = {
+            description: `Input field: ${name}`,
+            type: parsed.types[name] ?? 'string',
+            required: true,
+        };
+    }
+    return { inputFields, outputFields: getOutputFieldConfigs(signature) };
+}
+
+/**
+ * Throw unless a saved signature has the same input and output fields as the
+ * current one. Descriptions may differ; field names and types may not.
+ */
+export function checkSignature(name: string, saved: ISignature, current: ISignature): void {
+    const layout = (signature: ISignature) =>
+        `${fieldList(signature.inputFields)} -> ${fieldList(signature.outputFields)}`;
+    if (layout(saved) !== layout(current)) {
+        throw new Error(
+            `Saved state for predictor '${name}' has signature ${layout(saved)}, but the program's is ${layout(current)}.`
+        );
+    }
+}
+
+function fieldList(fields: Record<string, FieldConfig>): string {
+    return Object.entries(fields)
+        .map(([key, config]) => `${key}: ${config.type ?? 'string'}`)
+        .join(', ');
+}
+
+export function dumpDemo(demo: Example): DemoState {
+    const inputKeys = demo.getInputKeys();
+    return { data: demo.toObject(), ...(inputKeys ? { inputKeys } : {}) };
+}
+
+export function loadDemo(state: DemoState): Example {
+    const example = new Example(state.data);
+    return state.inputKeys ? example.withInputs(...state.inputKeys) : example;
+}
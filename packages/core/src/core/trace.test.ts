@@ -0,0 +1,131 @@
+import { getTraceHistory, clearTraceHistory } from './trace';
+import { configure } from './config';
+import { Predict } from '../modules/predict';
+import { ChainOfThought } from '../modules/chain-of-thought';
+import { RespAct } from '../modules/respact';
+import { MockLM } from '../test-utils';
+
+describe('tracing', () => {
+    beforeEach(() => {
+        clearTraceHistory();
+    });
+
+    afterEach(() => {
+        configure({ tracing: false });
+    });
+
+    it('records nothing while tracing is off', async () => {
+        const lm = new MockLM({ responses: ['answer: Paris'] });
+        const result = await new Predict('question -> answer', lm).forward({ question: 'Q' });
+
+        expect(result.trace).toBeUndefined();
+        expect(getTraceHistory()).toHaveLength(0);
+    });
+
+    it('attaches a trace to Predict results and records it globally', async () => {
+        configure({ tracing: true });
+        const lm = new MockLM({ responses: ['answer: Paris'] });
+        const predict = new Predict('question -> answer', lm);
+
+        const result = await predict.forward({ question: 'Capital of France?' });
+
+        expect(result.trace).toMatchObject({
+            moduleId: predict.moduleId,
+            input: { question: 'Capital of France?' },
+            output: { answer: 'Paris' },
+            rawLMOutput: 'answer: Paris',
+            usage: { promptTokens: 10, completionTokens: 5, requestCount: 1 },
+        });
+        expect(result.trace?.rawLMInput).toContain('question: Capital of France?');
+        expect(result.trace?.timestamp).toBeInstanceOf(Date);
+        expect(getTraceHistory()).toEqual([result.trace]);
+    });
+
+    it('records serialized output on the structured path', async () => {
+        configure({ tracing: true });
+        const lm = new MockLM({
+            structuredResponses: [{ answer: 'Paris' }],
+            capabilities: { supportsStructuredOutput: true },
+        });
+
+        const result = await new Predict('question -> answer', lm).forward({ question: 'Q' });
+
+        expect(result.trace?.rawLMOutput).toBe('{"answer":"Paris"}');
+    });
+
+    it('covers both calls of a two-step ChainOfThought in its usage', async () => {
+        configure({ tracing: true });
+        const lm = new MockLM({ responses: ['because', 'answer: Paris'] });
+
+        const result = await new ChainOfThought('question -> answer', lm, {
+            mode: 'two-step',
+        }).forward({ question: 'Q' });
+
+        expect(result.trace?.usage.requestCount).toBe(2);
+        expect(result.trace?.rawLMInput).toContain('Reasoning: because');
+        expect(result.trace?.output).toEqual({ answer: 'Paris', reasoning: 'because' });
+    });
+
+    it('records each repair attempt', async () => {
+        configure({ tracing: true });
+        const lm = new MockLM({ responses: ['count: many', 'count: 3'] });
+
+        const result = await new Predict('question -> count: int', lm, {
+            maxRepairAttempts: 2,
+        }).forward({ question: 'Q' });
+
+        expect(result.trace?.repairs).toEqual([
+            {
+                prompt: expect.stringContaining('question: Q'),
+                rawOutput: 'count: many',
+                issues: [expect.objectContaining({ field: 'count', expected: 'int' })],
+            },
+        ]);
+        expect(result.trace?.rawLMInput).toContain('Your previous response was:');
+        expect(result.trace?.rawLMOutput).toBe('count: 3');
+        expect(result.trace?.usage.requestCount).toBe(2);
+    });
+
+    it('records the whole RespAct conversation', async () => {
+        configure({ tracing: true });
+        const lm = new MockLM({
+            responses: ['Action: echo\nAction Input: hi', 'Final Answer: answer: hi'],
+        });
+        const agent = new RespAct('question -> answer', {
+            tools: { echo: (input: string) => input },
+            lm,
+        });
+
+        const result = await agent.forward({ question: 'Q' });
+
+        expect(result.trace?.rawLMInput).toContain('Observation: hi');
+        expect(result.trace?.rawLMOutput).toBe('Final Answer: answer: hi');
+        expect(result.trace?.usage.requestCount).toBe(2);
+    });
+
+    it('can be queried by module and limited to the most recent entries', async () => {
+        configure({ tracing: true });
+        const lm = new MockLM({ responses: ['answer: a', 'answer: b', 'answer: c'] });
+        const first = new Predict('question -> answer', lm);
+        const second = new Predict('question -> answer', lm);
+
+        await first.forward({ question: '1' });
+        await second.forward({ question: '2' });
+        await first.forward({ question: '3' });
+
+        expect(getTraceHistory({ moduleId: first.moduleId }).map((e) => e.input)).toEqual([
+            { question: '1' },
+            { question: '3' },
+        ]);
+        expect(getTraceHistory({ limit: 1 })[0].output).toEqual({ answer: 'c' });
+    });
+
+    it('gives each module instance its own id', () => {
+        const lm = new MockLM();
+        const a = new Predict('question -> answer', lm);
+        const b = new Predict('question -> answer', lm);
+
+        expect(a.moduleId).toMatch(/^Predict_\d+$/);
+        expect(a.moduleId).not.toBe(b.moduleId);
+    });
+});
@@ -0,0 +1,111 @@
+import type { UsageStats } from '../types/language-model';
+import type { TraceEntry } from '../types/module';
+import { createAsyncContext, requireAsyncContext } from '../utils/async-context';
+
+/** Oldest entries are dropped past this, so a long-running process cannot grow without bound. */
+const MAX_HISTORY = 10_000;
+
+const history: TraceEntry[] = [];
+
+/** Sinks of the {@link captureTraces} calls enclosing the current async context. */
+const captures = createAsyncContext<TraceEntry[][]>();
+
+export interface TraceQuery {
+    /** Only entries recorded by this module. */
+    moduleId?: string;
+    /** Only entries recorded at or after this time. */
+    since?: Date;
+    /** Only the most recent `limit` matching entries. */
+    limit?: number;
+}
+
+/** Append an entry to the global trace history. */
+export function recordTrace(entry: TraceEntry): void {
+    for (const sink of captures?.getStore() ?? []) {
+        sink.push(entry);
+    }
+    history.push(entry);
+    if (history.length > MAX_HISTORY) {
+        history.splice(0, history.length - MAX_HISTORY);
+    }
+}
+
+/**
+ * Entries recorded while `configure({ tracing: true })` was set, oldest first.
+ * Returns a copy: mutating it does not affect the history.
+ */
+export function getTraceHistory(query: TraceQuery = {}): TraceEntry[] {
+    let entries = history.filter(
+        (entry) =>
+            (query.moduleId === undefined || entry.moduleId === query.moduleId) &&
+            (query.since === undefined || entry.timestamp >= query.since)
+    );
+    if (query.limit !== undefined) {
+        entries = query.limit > 0 ? entries.slice(-query.limit) : [];
+    }
+    return entries;
+}
+
+export function clearTraceHistory(): void {
+    history.length = 0;
+}
+
+/**
+ * Run `fn` and collect the trace entries recorded by it and by everything it
+ * awaits — and only those, however much else runs concurrently. Tracing must be
+ * enabled for anything to be recorded; captures nest.
+ */
+export async function captureTraces<T>(
+    fn: () => Promise<T>
+): Promise<{ result: T; traces: TraceEntry[] }> {
+    const storage = requireAsyncContext(captures, 'captureTraces');
+
+    const traces: TraceEntry[] = [];
+    const result = await storage.run([...(storage.getStore() ?? []), traces], fn);
+    return { result, traces };
+}
+
+/**
+ * Usage incurred between two `getUsage()` snapshots of the same model.
+ *
+ * Snapshots are per model instance, so calls running concurrently on one model
+ * are attributed to whichever traced call overlaps them.
+ */
+export function usageBetween(before: UsageStats, after: UsageStats): UsageStats {
+    const delta = (key: keyof UsageStats) =>
+        ((after[key] ?? 0) as number) - ((before[key] ?? 0) as number);
+    const requestCount = delta('requestCount');
+    const latencyBefore = (before.averageLatency ?? 0) * (before.requestCount ?? 0);
+    const latencyAfter = (after.averageLatency ?? 0) * (after.requestCount ?? 0);
+
+    return {
+        promptTokens: delta('promptTokens'),
+        completionTokens: delta('completionTokens'),
+        totalTokens: delta('totalTokens'),
+        requestCount,
+        errorCount: delta('errorCount'),
+        averageLatency: requestCount > 0 ? (latencyAfter - latencyBefore) / requestCount : 0,
+        cacheHits: delta('cacheHits'),
+    };
+}
+
+/** Several usage reports combined into one, e.g. across the models a program calls. */
+export function sumUsage(reports: UsageStats[]): UsageStats {
+    const total = (key: keyof UsageStats) =>
+        reports.reduce((sum, report) => sum + ((report[key] ?? 0) as number), 0);
+    const requestCount = total('requestCount');
+    const latency = reports.reduce(
+        (sum, report) => sum + (report.averageLatency ?? 0) * (report.requestCount ?? 0),
+        0
+    );
+
+    return {
+        promptTokens: total('promptTokens'),
+        completionTokens: total('completionTokens'),
+        totalTokens: total('totalTokens'),
+        requestCount,
+        errorCount: total('errorCount'),
+        averageLatency: requestCount > 0 ? latency / requestCount : 0,
+        cacheHits: total('cacheHits'),
+    };
+}
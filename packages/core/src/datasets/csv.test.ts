@@ -0,0 +1,29 @@
+import { CSVParser, parseCSV } from './csv';
+
+describe('parseCSV', () => {
+    it('parses quoted fields with delimiters, quotes and newlines', () => {
+        const text = 'a,b,c\n1,"x, y","say ""hi"""\n2,"two\nlines",\r\n';
+
+        expect(parseCSV(text)).toEqual([
+            ['a', 'b', 'c'],
+            ['1', 'x, y', 'say "hi"'],
+            ['2', 'two\nlines', ''],
+        ]);
+    });
+
+    it('skips blank lines and flushes a final record without a newline', () => {
+        expect(parseCSV('a;b\n\n1;2', ';')).toEqual([
+            ['a', 'b'],
+            ['1', '2'],
+        ]);
+    });
+
+    it('gives the same records however the input is chunked', () => {
+        const text = 'q,a\n"he said ""no""",1\n"multi\nline",2\n';
+        const parser = new CSVParser();
+        const records = [...text].flatMap((char) => parser.push(char));
+        records.push(...parser.end());
+
+        expect(records).toEqual(parseCSV(text));
+    });
+});
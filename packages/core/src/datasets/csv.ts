@@ -0,0 +1,87 @@
+/**
+ * An incremental RFC 4180 parser: feed it text in chunks of any size and it
+ * returns each record once the record is complete. Quoted fields may contain
+ * the delimiter, doubled quotes and newlines; a chunk may end anywhere, even
+ * mid-field.
+ */
+export class CSVParser {
+    private readonly delimiter: string;
+    private field = '';
+    private record: string[] = [];
+    private quoted = false;
+    /** Saw a quote inside a quoted field: either it closes the field or it opens a `""`. */
+    private pendingQuote = false;
+    private fieldStarted = false;
+
+    constructor(delimiter = ',') {
+        this.delimiter = delimiter;
+    }
+
+    push(chunk: string): string[][] {
+        const records: string[][] = [];
+
+        for (let i = 0; i < chunk.length; i++) {
+            const char = chunk[i];
+
+            if (this.pendingQuote) {
+                this.pendingQuote = false;
+                if (char === '"') {
+                    this.field += '"';
+                    continue;
+                }
+                this.quoted = false;
+            }
+
+            if (this.quoted) {
+                if (char === '"') {
+                    this.pendingQuote = true;
+                } else {
+                    this.field += char;
+                }
+                continue;
+            }
+
+            if (char === '"' && !this.fieldStarted) {
+                this.quoted = true;
+                this.fieldStarted = true;
+            } else if (char === this.delimiter) {
+                this.endField();
+            } else if (char === '\n') {
+                this.endRecord(records);
+            } else if (char !== '\r') {
+                this.field += char;
+                this.fieldStarted = true;
+            }
+        }
+
+        return records;
+    }
+
+    /** Flush the last record when the input ends without a newline. */
+    end(): string[][] {
+        const records: string[][] = [];
+        this.pendingQuote = false;
+        this.quoted = false;
+        if (this.fieldStarted || this.record.length > 0) this.endRecord(records);
+        return records;
+    }
+
+    private endField(): void {
+        this.record.push(this.field);
+        this.field = '';
+        this.fieldStarted = false;
+    }
+
+    private endRecord(records: string[][]): void {
+        this.endField();
+        // A blank line is not a record of one empty field.
+        if (!(this.record.length === 1 && this.record[0] === '')) records.push(this.record);
+        this.record = [];
+    }
+}
+
+/** Parse a whole CSV document into records. */
+export function parseCSV(text: string, delimiter = ','): string[][] {
+    const parser = new CSVParser(delimiter);
+    return [...parser.push(text), ...parser.end()];
+}
@@ -0,0 +1,139 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Dataset } from './dataset';
+import { Example } from '../core/example';
+
+const rows = Array.from({ length: 10 }, (_, i) => ({ question: `q${i}`, answer: `a${i}` }));
+
+describe('Dataset', () => {
+    describe('fromArray', () => {
+        it('declares the input keys on every example', () => {
+            const data = Dataset.fromArray(rows, { inputKeys: ['question'] });
+
+            expect(data.length).toBe(10);
+            expect(data.at(0)!.getInputs()).toEqual({ question: 'q0' });
+            expect(data.at(0)!.getOutputs()).toEqual({ answer: 'a0' });
+        });
+
+        it('re-keys existing examples', () => {
+            const data = Dataset.fromArray([new Example({ question: 'q', answer: 'a' })], {
+                inputKeys: ['question'],
+            });
+
+            expect(data.at(0)!.getInputs()).toEqual({ question: 'q' });
+        });
+
+        it('rejects a row missing an input key', () => {
+            expect(() =>
+                Dataset.fromArray([{ question: 'q' }, { query: 'q', answer: 'a' }], {
+                    inputKeys: ['question'],
+                })
+            ).toThrow("Row 2 is missing input key 'question'; it has query, answer.");
+        });
+    });
+
+    describe('transformations', () => {
+        const data = Dataset.fromArray(rows, { inputKeys: ['question'] });
+        const questions = (dataset: Dataset) =>
+            [...dataset].map((example) => example.get('question'));
+
+        it('shuffles and samples reproducibly from a seed', () => {
+            expect(questions(data.shuffle(3))).toEqual(questions(data.shuffle(3)));
+            expect(questions(data.shuffle(3))).not.toEqual(questions(data));
+            expect(questions(data.sample(4, 1))).toEqual(questions(data.sample(4, 1)));
+            expect(data.sample(4, 1).length).toBe(4);
+        });
+
+        it('splits into disjoint train, dev and test sets', () => {
+            const { train, dev, test } = data.split({ dev: 0.2, test: 0.3, seed: 5 });
+
+            expect([train.length, dev.length, test.length]).toEqual([5, 2, 3]);
+            expect(
+                new Set([...questions(train), ...questions(dev), ...questions(test)]).size
+            ).toBe(10);
+            expect(questions(data.split({ dev: 0.5, shuffle: false }).dev)).toEqual([
+                'q5',
+                'q6',
+                'q7',
+                'q8',
+                'q9',
+            ]);
+            expect(() => data.split({ dev: 0.6, test: 0.6 })).toThrow('sum to at most 1');
+        });
+
+        it('filters, takes and dedupes, keeping the input keys', () => {
+            const repeated = Dataset.fromArray([...rows, { question: 'q1', answer: 'other' }], {
+                inputKeys: ['question'],
+            });
+
+            expect(repeated.dedupe().length).toBe(10);
+            expect(repeated.dedupe(['question', 'answer']).length).toBe(11);
+            const filtered = data.filter((example) => example.get('question') > 'q7').take(1);
+            expect(questions(filtered)).toEqual(['q8']);
+            expect(filtered.inputKeys).toEqual(['question']);
+            expect(filtered.at(0)!.getInputs()).toEqual({ question: 'q8' });
+        });
+    });
+
+    describe('file loaders', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await mkdtemp(join(tmpdir(), 'ts-dspy-dataset-'));
+        });
+
+        afterEach(async () => {
+            await rm(dir, { recursive: true, force: true });
+        });
+
+        it('loads JSONL, skipping blank lines', async () => {
+            const path = join(dir, 'data.jsonl');
+            await writeFile(path, rows.map((row) => JSON.stringify(row)).join('\n\n'));
+
+            const data = await Dataset.fromJSONL(path, { inputKeys: ['question'], limit: 3 });
+
+            expect(data.length).toBe(3);
+            expect(data.at(2)!.toObject()).toEqual({ question: 'q2', answer: 'a2' });
+        });
+
+        it('reports the line of malformed JSONL', async () => {
+            const path = join(dir, 'bad.jsonl');
+            await writeFile(path, '{"question":"q"}\n{oops}\n');
+
+            await expect(Dataset.fromJSONL(path, { inputKeys: ['question'] })).rejects.toThrow(
+                `${path}:2: invalid JSON`
+            );
+        });
+
+        it('loads CSV with a header row', async () => {
+            const path = join(dir, 'data.csv');
+            await writeFile(
+                path,
+                'question,answer\n"Why, though?","Because ""reasons"""\nq2,a2'
+            );
+
+            const data = await Dataset.fromCSV(path, { inputKeys: ['question'] });
+
+            expect(data.length).toBe(2);
+            expect(data.at(0)!.getInputs()).toEqual({ question: 'Why, though?' });
+            expect(data.at(0)!.get('answer')).toBe('Because "reasons"');
+        });
+
+        it('streams examples without loading the whole file', async () => {
+            const path = join(dir, 'data.csv');
+            await writeFile(
+                path,
+                ['question,answer', ...rows.map((r) => `${r.question},${r.answer}`)].join('\n')
+            );
+
+            const seen: string[] = [];
+            for await (const example of Dataset.streamCSV(path, { inputKeys: ['question'] })) {
+                seen.push(example.get('question'));
+                if (seen.length === 2) break;
+            }
+
+            expect(seen).toEqual(['q0', 'q1']);
+        });
+    });
+});
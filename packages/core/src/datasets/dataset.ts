@@ -0,0 +1,277 @@
+import type * as Fs from 'node:fs';
+import { Example } from '../core/example';
+import { createRandom, sample, shuffle } from '../utils/random';
+import { CSVParser } from './csv';
+
+export interface DatasetOptions {
+    /** Keys every example takes as inputs; the rest are labels. */
+    inputKeys: string[];
+}
+
+export interface FileDatasetOptions extends DatasetOptions {
+    /** Stop after this many examples. */
+    limit?: number;
+}
+
+export interface CSVDatasetOptions extends FileDatasetOptions {
+    /** Field separator. Defaults to `,`. */
+    delimiter?: string;
+}
+
+export interface SplitOptions {
+    /** Fraction of examples, from 0 to 1, held out for the devset. Defaults to 0. */
+    dev?: number;
+    /** Fraction of examples, from 0 to 1, held out for the test set. Defaults to 0. */
+    test?: number;
+    /** Seed for the shuffle before splitting. Defaults to 0. */
+    seed?: number;
+    /** Set to `false` to split in the current order. */
+    shuffle?: boolean;
+}
+
+export interface DatasetSplits {
+    train: Dataset;
+    dev: Dataset;
+    test: Dataset;
+}
+
+/**
+ * An immutable list of {@link Example}s that share their input keys.
+ *
+ * ```ts
+ * const data = await Dataset.fromCSV('qa.csv', { inputKeys: ['question'] });
+ * const { train, dev } = data.dedupe().split({ dev: 0.2, seed: 1 });
+ * await optimizer.compile(program, { trainset: train.toArray(), devset: dev.toArray() });
+ * ```
+ *
+ * Every method returns a new dataset. The loaders check each row has all the
+ * input keys, so a misnamed column fails at load time rather than as a
+ * missing field mid-run. `fromJSONL` and `fromCSV` read from the filesystem
+ * and need Node; use `fromArray` elsewhere.
+ */
+export class Dataset implements Iterable<Example> {
+    readonly inputKeys: readonly string[];
+    private readonly examples: readonly Example[];
+
+    private constructor(examples: readonly Example[], inputKeys: readonly string[]) {
+        this.examples = examples;
+        this.inputKeys = inputKeys;
+    }
+
+    /** Wrap plain records, or `Example`s, which are re-keyed to `inputKeys`. */
+    static fromArray(
+        rows: Array<Record<string, any> | Example>,
+        options: DatasetOptions
+    ): Dataset {
+        const examples = rows.map((row, index) =>
+            toExample(
+                row instanceof Example ? row.toObject() : row,
+                options.inputKeys,
+                index + 1
+            )
+        );
+        return new Dataset(examples, options.inputKeys);
+    }
+
+    /** Load a file with one JSON object per line. Blank lines are skipped. */
+    static async fromJSONL(path: string, options: FileDatasetOptions): Promise<Dataset> {
+        return Dataset.collect(Dataset.streamJSONL(path, options), options);
+    }
+
+    /** Load a CSV file whose first row names the columns. Values are left as strings. */
+    static async fromCSV(path: string, options: CSVDatasetOptions): Promise<Dataset> {
+        return Dataset.collect(Dataset.streamCSV(path, options), options);
+    }
+
+    /**
+     * Read a JSONL file one example at a time, without loading it whole — for
+     * files too large to keep in memory.
+     */
+    static async *streamJSONL(
+        path: string,
+        options: FileDatasetOptions
+    ): AsyncGenerator<Example> {
+        let row = 0;
+        let buffered = '';
+        const limit = options.limit ?? Infinity;
+
+        const parse = (line: string, lineNumber: number): Example | undefined => {
+            if (line.trim() === '') return undefined;
+            let data: unknown;
+            try {
+                data = JSON.parse(line);
+            } catch (error) {
+                throw new Error(`${path}:${lineNumber}: invalid JSON`, { cause: error });
+            }
+            if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+                throw new Error(`${path}:${lineNumber}: expected a JSON object`);
+            }
+            return toExample(data as Record<string, any>, options.inputKeys, lineNumber);
+        };
+
+        let lineNumber = 0;
+        for await (const chunk of await readChunks(path)) {
+            buffered += chunk;
+            const lines = buffered.split('\n');
+            buffered = lines.pop()!;
+            for (const line of lines) {
+                const example = parse(line, ++lineNumber);
+                if (!example) continue;
+                if (row++ >= limit) return;
+                yield example;
+            }
+        }
+        const last = parse(buffered, ++lineNumber);
+        if (last && row < limit) yield last;
+    }
+
+    /** Read a CSV file one example at a time, without loading it whole. */
+    static async *streamCSV(path: string, options: CSVDatasetOptions): AsyncGenerator<Example> {
+        const parser = new CSVParser(options.delimiter);
+        const limit = options.limit ?? Infinity;
+        let header: string[] | undefined;
+        let row = 0;
+
+        const toRecord = (values: string[]): Example | undefined => {
+            if (!header) {
+                header = values.map((name) => name.trim());
+                return undefined;
+            }
+            const data: Record<string, string> = {};
+            header.forEach((name, index) => {
+                if (values[index] !== undefined) data[name] = values[index];
+            });
+            return toExample(data, options.inputKeys, row + 1);
+        };
+
+        for await (const chunk of await readChunks(path)) {
+            for (const values of parser.push(chunk)) {
+                const example = toRecord(values);
+                if (!example) continue;
+                if (row++ >= limit) return;
+                yield example;
+            }
+        }
+        for (const values of parser.end()) {
+            const example = toRecord(values);
+            if (!example) continue;
+            if (row++ >= limit) return;
+            yield example;
+        }
+    }
+
+    private static async collect(
+        stream: AsyncIterable<Example>,
+        options: DatasetOptions
+    ): Promise<Dataset> {
+        const examples: Example[] = [];
+        for await (const example of stream) examples.push(example);
+        return new Dataset(examples, options.inputKeys);
+    }
+
+    get length(): number {
+        return this.examples.length;
+    }
+
+    [Symbol.iterator](): Iterator<Example> {
+        return this.examples[Symbol.iterator]();
+    }
+
+    at(index: number): Example | undefined {
+        return this.examples.at(index);
+    }
+
+    /** The examples as a plain array, e.g. for a `trainset`. */
+    toArray(): Example[] {
+        return [...this.examples];
+    }
+
+    /** The same examples in a seeded random order. */
+    shuffle(seed = 0): Dataset {
+        return this.derive(shuffle(this.examples, createRandom(seed)));
+    }
+
+    /** Up to `n` distinct examples, drawn at random with a seed. */
+    sample(n: number, seed = 0): Dataset {
+        return this.derive(sample(this.examples, n, createRandom(seed)));
+    }
+
+    filter(predicate: (example: Example, index: number) => boolean): Dataset {
+        return this.derive(this.examples.filter(predicate));
+    }
+
+    /** The first `n` examples. */
+    take(n: number): Dataset {
+        return this.derive(this.examples.slice(0, n));
+    }
+
+    /**
+     * Drop examples that repeat an earlier one, keeping the first. Examples
+     * are compared on `keys` — by default the input keys, so one question
+     * labelled twice counts as a duplicate.
+     */
+    dedupe(keys: readonly string[] = this.inputKeys): Dataset {
+        const seen = new Set<string>();
+        return this.filter((example) => {
+            const key = JSON.stringify(keys.map((name) => example.get(name)));
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    /**
+     * Split into train, dev and test sets. `dev` and `test` are fractions of
+     * the whole, rounded down; train gets the rest. Shuffled with `seed` first
+     * unless `shuffle` is `false`.
+     */
+    split(options: SplitOptions = {}): DatasetSplits {
+        const dev = options.dev ?? 0;
+        const test = options.test ?? 0;
+        if (dev < 0 || test < 0 || dev + test > 1) {
+            throw new Error(
+                `Split fractions must be non-negative and sum to at most 1 (got dev ${dev}, test ${test}).`
+            );
+        }
+
+        const ordered =
+            options.shuffle === false
+                ? this.examples
+                : shuffle(this.examples, createRandom(options.seed ?? 0));
+        const devCount = Math.floor(ordered.length * dev);
+        const testCount = Math.floor(ordered.length * test);
+        const trainCount = ordered.length - devCount - testCount;
+
+        return {
+            train: this.derive(ordered.slice(0, trainCount)),
+            dev: this.derive(ordered.slice(trainCount, trainCount + devCount)),
+            test: this.derive(ordered.slice(trainCount + devCount)),
+        };
+    }
+
+    private derive(examples: readonly Example[]): Dataset {
+        return new Dataset(examples, this.inputKeys);
+    }
+}
+
+function toExample(
+    data: Record<string, any>,
+    inputKeys: readonly string[],
+    row: number
+): Example {
+    const missing = inputKeys.filter((key) => data[key] === undefined);
+    if (missing.length > 0) {
+        throw new Error(
+            `Row ${row} is missing input key${missing.length > 1 ? 's' : ''} ${missing
+                .map((key) => `'${key}'`)
+                .join(', ')}; it has ${Object.keys(data).join(', ') || 'no fields'}.`
+        );
+    }
+    return new Example(data).withInputs(...inputKeys);
+}
+
+/** The file's contents as UTF-8 text, a chunk at a time. */
+async function readChunks(path: string): Promise<AsyncIterable<string>> {
+    const fs: typeof Fs = await import('node:fs');
+    return fs.createReadStream(path, { encoding: 'utf8' });
+}
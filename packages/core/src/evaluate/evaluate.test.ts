@@ -0,0 +1,145 @@
+import { Evaluate } from './evaluate';
+import { formatResultsTable, resultsToCSV, resultsToJSON } from './table';
+import { Example } from '../core/example';
+import { LMError } from '../core/errors';
+import { Predict } from '../modules/predict';
+import { MockLM } from '../test-utils';
+import type { Metric } from '../types/module';
+
+const exactAnswer: Metric = (example, prediction) =>
+    prediction.get('answer') === example.get('answer');
+
+const devset = [
+    new Example({ question: 'q1', answer: 'a1' }).withInputs('question'),
+    new Example({ question: 'q2', answer: 'a2' }).withInputs('question'),
+    new Example({ question: 'q3', answer: 'a3' }).withInputs('question'),
+];
+
+/** Answers q1 right, q2 wrong, and fails outright on q3. */
+function scriptedLM(): MockLM {
+    return new MockLM({
+        respond: (prompt) => {
+            if (prompt.includes('q1')) return 'answer: a1';
+            if (prompt.includes('q2')) return 'answer: nope';
+            throw new LMError('mock', 'rate limited');
+        },
+    });
+}
+
+describe('Evaluate', () => {
+    it('scores every example, counting failures as 0', async () => {
+        const program = new Predict('question -> answer', scriptedLM());
+
+        const result = await new Evaluate({ devset, metric: exactAnswer }).run(program);
+
+        expect(result.score).toBeCloseTo(1 / 3);
+        expect(result.failures).toBe(1);
+        expect(result.results.map((row) => row.score)).toEqual([1, 0, 0]);
+        expect(result.results[1].prediction?.get('answer')).toBe('nope');
+        expect(result.results[2].error).toBeInstanceOf(LMError);
+        expect(result.results[2].prediction).toBeUndefined();
+    });
+
+    it('totals usage across the run', async () => {
+        const lm = new MockLM({ respond: () => 'answer: a1' });
+
+        const { usage } = await new Evaluate({ devset, metric: exactAnswer }).run(
+            new Predict('question -> answer', lm)
+        );
+
+        expect(usage.requestCount).toBe(3);
+        expect(usage.promptTokens).toBe(30);
+        expect(usage.completionTokens).toBe(15);
+    });
+
+    it('runs up to numThreads examples at once and keeps devset order', async () => {
+        let inFlight = 0;
+        let peak = 0;
+        const program = new Predict('question -> answer', new MockLM());
+        program.forward = async (inputs) => {
+            inFlight += 1;
+            peak = Math.max(peak, inFlight);
+            // Later examples finish first.
+            await new Promise((resolve) =>
+                setTimeout(resolve, 10 - Number(inputs.question[1]))
+            );
+            inFlight -= 1;
+            return { get: () => `a${inputs.question[1]}` } as any;
+        };
+        const progress: number[] = [];
+
+        const result = await new Evaluate({
+            devset,
+            metric: exactAnswer,
+            numThreads: 2,
+            onProgress: (done) => progress.push(done),
+        }).run(program);
+
+        expect(peak).toBe(2);
+        expect(result.results.map((row) => row.example)).toEqual(devset);
+        expect(result.score).toBe(1);
+        expect(progress).toEqual([1, 2, 3]);
+    });
+
+    it('rethrows errors that are not model or validation failures', async () => {
+        const program = new Predict(
+            'question -> answer',
+            new MockLM({ respond: () => 'answer: x' })
+        );
+        const metric: Metric = () => {
+            throw new TypeError('bug in metric');
+        };
+
+        await expect(new Evaluate({ devset, metric }).run(program)).rejects.toThrow(
+            'bug in metric'
+        );
+    });
+});
+
+describe('result tables', () => {
+    const run = () =>
+        new Evaluate({ devset, metric: exactAnswer }).run(
+            new Predict('question -> answer', scriptedLM())
+        );
+
+    it('formats a text table with a summary line', async () => {
+        const table = formatResultsTable(await run());
+        const lines = table.split('\n');
+
+        expect(lines[0]).toBe(
+            '# | question | expected answer | predicted answer | score | error'
+        );
+        expect(lines[2]).toBe('1 | q1       | a1              | a1               | 1');
+        expect(lines[4]).toContain('[mock] rate limited');
+        expect(lines[lines.length - 1]).toBe('score: 33.33% over 3 examples (1 failed)');
+    });
+
+    it('truncates long cells and extra rows', async () => {
+        const result = await run();
+
+        expect(formatResultsTable(result, { maxColumnWidth: 8 })).toContain('| [mock] …');
+        expect(formatResultsTable(result, { maxRows: 1 })).toContain('... 2 more rows');
+    });
+
+    it('exports CSV with quoting', async () => {
+        const csv = resultsToCSV(await run()).split('\n');
+
+        expect(csv[0]).toBe('#,question,expected answer,predicted answer,score,error');
+        expect(csv[1]).toBe('1,q1,a1,a1,1,');
+        expect(csv[3]).toBe('3,q3,a3,,0,[mock] rate limited');
+    });
+
+    it('exports JSON with the summary', async () => {
+        const json = JSON.parse(resultsToJSON(await run()));
+
+        expect(json.failures).toBe(1);
+        expect(json.usage.requestCount).toBe(2);
+        expect(json.results[0]).toEqual({
+            '#': 1,
+            question: 'q1',
+            'expected answer': 'a1',
+            'predicted answer': 'a1',
+            score: 1,
+        });
+    });
+});
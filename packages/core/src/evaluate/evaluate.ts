@@ -0,0 +1,122 @@
+import { type Module } from '../core/module';
+import { type Example } from '../core/example';
+import { type Prediction } from '../core/prediction';
+import { LMError, ValidationError } from '../core/errors';
+import { sumUsage, usageBetween } from '../core/trace';
+import type { ILanguageModel, UsageStats } from '../types/language-model';
+import type { Metric } from '../types/module';
+import { mapConcurrent } from '../utils/concurrency';
+
+export interface EvaluateOptions {
+    /** Examples to run the program on. Each needs its input keys set with `withInputs`. */
+    devset: Example[];
+    /** Scores one prediction against its example; `true` counts as 1, `false` as 0. */
+    metric: Metric;
+    /** Examples evaluated at once. Defaults to 1. */
+    numThreads?: number;
+    /** Called after each example finishes, in completion order. */
+    onProgress?: (done: number, total: number) => void;
+}
+
+/** How the program did on one example. */
+export interface EvaluationRow {
+    example: Example;
+    /** Absent when the program failed on this example. */
+    prediction?: Prediction;
+    /** The metric's score, or 0 for a failed example. */
+    score: number;
+    /** The `ValidationError` or `LMError` the program threw, if it failed. */
+    error?: ValidationError | LMError;
+}
+
+export interface EvaluationResult {
+    /** Mean score over the whole devset, failed examples included as 0. */
+    score: number;
+    /** One row per devset example, in devset order. */
+    results: EvaluationRow[];
+    /** Examples on which the program threw a `ValidationError` or `LMError`. */
+    failures: number;
+    /** Usage across every model the program called during the run. */
+    usage: UsageStats;
+}
+
+/**
+ * Run a program over a devset and score it.
+ *
+ * ```ts
+ * const evaluate = new Evaluate({ devset, metric, numThreads: 8 });
+ * const result = await evaluate.run(program);
+ * console.log(result.score, result.failures);
+ * console.log(formatResultsTable(result));
+ * ```
+ *
+ * A `ValidationError` or `LMError` on one example is recorded against that
+ * example and scored 0, so one bad response does not sink the run. Anything
+ * else — a bug in the program or the metric — is rethrown.
+ *
+ * `usage` is measured from the usage counters of the models the program's
+ * modules resolve to, so calls other code makes to those same models while the
+ * evaluation runs are counted too.
+ */
+export class Evaluate {
+    private readonly devset: Example[];
+    private readonly metric: Metric;
+    private readonly numThreads: number;
+    private readonly onProgress?: (done: number, total: number) => void;
+
+    constructor(options: EvaluateOptions) {
+        this.devset = options.devset;
+        this.metric = options.metric;
+        this.numThreads = options.numThreads ?? 1;
+        this.onProgress = options.onProgress;
+    }
+
+    async run(program: Module): Promise<EvaluationResult> {
+        const models = modelsOf(program);
+        const before = models.map((lm) => lm.getUsage());
+        let done = 0;
+
+        const results = await mapConcurrent(this.devset, this.numThreads, async (example) => {
+            const row = await this.evaluateOne(program, example);
+            this.onProgress?.(++done, this.devset.length);
+            return row;
+        });
+
+        const total = results.reduce((sum, row) => sum + row.score, 0);
+        return {
+            score: results.length > 0 ? total / results.length : 0,
+            results,
+            failures: results.filter((row) => row.error).length,
+            usage: sumUsage(
+                models.map((lm, index) => usageBetween(before[index], lm.getUsage()))
+            ),
+        };
+    }
+
+    private async evaluateOne(program: Module, example: Example): Promise<EvaluationRow> {
+        let prediction: Prediction;
+        try {
+            prediction = await program.forward(example.getInputs());
+        } catch (error) {
+            if (error instanceof ValidationError || error instanceof LMError) {
+                return { example, score: 0, error };
+            }
+            throw error;
+        }
+        const score = Number(await this.metric(example, prediction));
+        return { example, prediction, score };
+    }
+}
+
+/** The distinct models reachable from `program`; modules with none configured are skipped. */
+function modelsOf(program: Module): ILanguageModel[] {
+    const models = new Set<ILanguageModel>();
+    for (const [, module] of program.namedSubModules()) {
+        try {
+            models.add(module.getLM());
+        } catch {
+            // No model of its own and no default: it cannot have made any calls.
+        }
+    }
+    return [...models];
+}
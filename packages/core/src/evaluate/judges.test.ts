@@ -0,0 +1,72 @@
+import { Judge, SemanticF1 } from './judges';
+import { Evaluate } from './evaluate';
+import { Example } from '../core/example';
+import { Prediction } from '../core/prediction';
+import { Predict } from '../modules/predict';
+import { MockLM } from '../test-utils';
+
+const example = new Example({
+    question: 'Why is the sky blue?',
+    answer: 'Rayleigh scattering',
+}).withInputs('question');
+const prediction = new Prediction({ answer: 'Because of scattering of light' });
+
+describe('SemanticF1', () => {
+    it('combines the judged recall and precision into an F1 score', async () => {
+        const lm = new MockLM({
+            responses: ['reasoning: Both mention scattering.\nrecall: 0.5\nprecision: 1'],
+        });
+
+        const result = await new SemanticF1({ lm }).judge(example, prediction);
+
+        expect(result.score).toBeCloseTo(2 / 3);
+        expect(result.rationale).toBe('Both mention scattering.');
+        expect(lm.lastPrompt()).toContain('ground_truth: Rayleigh scattering');
+        expect(lm.lastPrompt()).toContain('system_response: Because of scattering of light');
+    });
+
+    it('clamps out-of-range scores and plugs into Evaluate', async () => {
+        const lm = new MockLM({
+            responses: ['reasoning: Perfect.\nrecall: 1.4\nprecision: 1'],
+        });
+        const program = new Predict(
+            'question -> answer',
+            new MockLM({ responses: ['answer: Because of scattering of light'] })
+        );
+
+        const { score } = await new Evaluate({
+            devset: [example],
+            metric: new SemanticF1({ lm }).asMetric(),
+        }).run(program);
+
+        expect(score).toBe(1);
+    });
+});
+
+describe('Judge', () => {
+    it('scores against the rubric, which leads the prompt', async () => {
+        const lm = new MockLM({
+            responses: ['reasoning: Mentions the mechanism.\nscore: 0.75'],
+        });
+        const judge = new Judge({ rubric: 'Score 1 for naming the physical mechanism.', lm });
+
+        const result = await judge.judge(example, prediction);
+
+        expect(result).toEqual({ score: 0.75, rationale: 'Mentions the mechanism.' });
+        expect(lm.lastPrompt().startsWith('Score 1 for naming the physical mechanism.')).toBe(
+            true
+        );
+        expect(lm.lastPrompt()).toContain('task: question: Why is the sky blue?');
+        expect(lm.lastPrompt()).toContain('reference: answer: Rayleigh scattering');
+    });
+
+    it('exposes its predictor so it can be tuned like any program', () => {
+        const judge = new Judge({ rubric: 'Be strict.', lm: new MockLM() });
+
+        expect(judge.predictor.instructions).toBe('Be strict.');
+        judge.predictor.demos = [
+            new Example({ task: 't', reference: 'r', response: 'r', score: 1 }),
+        ];
+        expect(judge.predictor.demos).toHaveLength(1);
+    });
+});
@@ -0,0 +1,195 @@
+import { Module } from '../core/module';
+import { Prediction } from '../core/prediction';
+import { type Example } from '../core/example';
+import { Signature, InputField, OutputField } from '../core/signature';
+import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
+import type { Metric } from '../types/module';
+import { ChainOfThought } from '../modules/chain-of-thought';
+
+/** Signature of the model call behind {@link SemanticF1}. */
+export class SemanticRecallPrecision extends Signature {
+    static description =
+        'Compare a system response to the ground truth for a question. Recall is the ' +
+        'fraction of the key ideas in the ground truth that the response covers; precision ' +
+        'is the fraction of the key ideas in the response that the ground truth supports.';
+
+    @InputField({ description: 'the question both texts answer' })
+    question!: string;
+
+    @InputField({ description: 'the reference answer' })
+    ground_truth!: string;
+
+    @InputField({ description: 'the answer being judged' })
+    system_response!: string;
+
+    @OutputField({ description: 'recall, from 0 to 1', type: 'float' })
+    recall!: number;
+
+    @OutputField({ description: 'precision, from 0 to 1', type: 'float' })
+    precision!: number;
+}
+
+/** Signature of the model call behind {@link Judge}. The rubric replaces its instructions. */
+export class JudgeSignature extends Signature {
+    static description = 'Judge how well the response answers the task, given the reference.';
+
+    @InputField({ description: 'the task inputs' })
+    task!: string;
+
+    @InputField({ description: 'the reference outputs' })
+    reference!: string;
+
+    @InputField({ description: 'the outputs being judged' })
+    response!: string;
+
+    @OutputField({ description: 'the score, from 0 to 1', type: 'float' })
+    score!: number;
+}
+
+export interface JudgeResult {
+    /** From 0 to 1. */
+    score: number;
+    /** The judge's reasoning for the score. */
+    rationale: string;
+}
+
+export interface SemanticF1Options {
+    /** Model the judge calls. Defaults to the configured default, like any module. */
+    lm?: ILanguageModel;
+    /** Field holding the question in the example. Defaults to `question`. */
+    questionField?: string;
+    /** Field holding the answer in both the example and the prediction. Defaults to `answer`. */
+    answerField?: string;
+}
+
+/**
+ * Score an answer by meaning rather than wording: a model estimates the recall
+ * and precision of its key ideas against the reference, and the score is their
+ * harmonic mean.
+ *
+ * ```ts
+ * const judge = new SemanticF1({ lm: judgeLM });
+ * new Evaluate({ devset, metric: judge.asMetric() });
+ * ```
+ *
+ * The judge is an ordinary module, so its calls are cached and traced, and an
+ * optimizer can tune its predictor like any other.
+ */
+export class SemanticF1 extends Module {
+    readonly predictor: ChainOfThought<typeof SemanticRecallPrecision>;
+    private readonly questionField: string;
+    private readonly answerField: string;
+
+    constructor(options: SemanticF1Options = {}) {
+        super(undefined, options.lm);
+        this.predictor = new ChainOfThought(SemanticRecallPrecision, options.lm);
+        this.questionField = options.questionField ?? 'question';
+        this.answerField = options.answerField ?? 'answer';
+    }
+
+    /**
+     * @param inputs `question`, `ground_truth` and `system_response`.
+     * @returns A prediction with `score`, `recall`, `precision` and `rationale`.
+     */
+    async forward(
+        inputs: Record<string, any>,
+        options?: LLMCallOptions
+    ): Promise<Prediction<JudgeResult & { recall: number; precision: number }>> {
+        const { recall, precision, reasoning } = await this.predictor.forward(inputs, options);
+        const r = clamp(recall);
+        const p = clamp(precision);
+        const score = r + p === 0 ? 0 : (2 * r * p) / (r + p);
+        return new Prediction({ score, recall: r, precision: p, rationale: reasoning });
+    }
+
+    /** Judge one example's label against a prediction. */
+    async judge(example: Example, prediction: Prediction): Promise<JudgeResult> {
+        const result = await this.forward({
+            question: example.get(this.questionField) ?? '',
+            ground_truth: stringify(example.get(this.answerField)),
+            system_response: stringify(prediction.get(this.answerField)),
+        });
+        return { score: result.get('score'), rationale: result.get('rationale') };
+    }
+
+    /** This judge as a {@link Metric}, scoring from 0 to 1. */
+    asMetric(): Metric {
+        return async (example, prediction) => (await this.judge(example, prediction)).score;
+    }
+}
+
+export interface JudgeOptions {
+    /**
+     * What a good response looks like and how to score it. Becomes the judge's
+     * instructions, so an instruction optimizer can refine it.
+     */
+    rubric: string;
+    /** Model the judge calls. Defaults to the configured default, like any module. */
+    lm?: ILanguageModel;
+}
+
+/**
+ * Score a prediction against a written rubric. The judge sees the example's
+ * inputs, its labels as the reference, and the prediction's outputs, and
+ * returns a score from 0 to 1 with its rationale.
+ *
+ * ```ts
+ * const judge = new Judge({
+ *     rubric: 'Score 1 if the summary keeps every figure from the reference, 0 if any is wrong.',
+ * });
+ * new Evaluate({ devset, metric: judge.asMetric() });
+ * ```
+ */
+export class Judge extends Module {
+    readonly predictor: ChainOfThought<typeof JudgeSignature>;
+
+    constructor(options: JudgeOptions) {
+        super(undefined, options.lm);
+        this.predictor = new ChainOfThought(JudgeSignature, options.lm);
+        this.predictor.instructions = options.rubric;
+    }
+
+    /**
+     * @param inputs `task`, `reference` and `response`, as text.
+     * @returns A prediction with `score` and `rationale`.
+     */
+    async forward(
+        inputs: Record<string, any>,
+        options?: LLMCallOptions
+    ): Promise<Prediction<JudgeResult>> {
+        const { score, reasoning } = await this.predictor.forward(inputs, options);
+        return new Prediction({ score: clamp(score), rationale: reasoning });
+    }
+
+    /** Judge one example's labels against a prediction. */
+    async judge(example: Example, prediction: Prediction): Promise<JudgeResult> {
+        const result = await this.forward({
+            task: describe(example.getInputs()),
+            reference: describe(example.getOutputs()),
+            response: describe(prediction.toObject()),
+        });
+        return { score: result.get('score'), rationale: result.get('rationale') };
+    }
+
+    /** This judge as a {@link Metric}, scoring from 0 to 1. */
+    asMetric(): Metric {
+        return async (example, prediction) => (await this.judge(example, prediction)).score;
+    }
+}
+
+/** Scores the model reports outside 0–1 are pulled back in. */
+function clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** `key: value` lines, one per field. */
+function describe(fields: Record<string, unknown>): string {
+    return Object.entries(fields)
+        .map(([key, value]) => `${key}: ${stringify(value)}`)
+        .join('\n');
+}
@@ -0,0 +1,183 @@
+import {
+    answerPassageMatch,
+    exactMatch,
+    normalizedMatch,
+    numericMatch,
+    setOverlap,
+    signatureMatch,
+    tokenF1,
+} from './metrics';
+import { Example } from '../core/example';
+import { Prediction } from '../core/prediction';
+import { Signature, InputField, OutputField } from '../core/signature';
+
+const example = (data: Record<string, any>) => new Example(data).withInputs('question');
+const prediction = (data: Record<string, any>) => new Prediction(data);
+
+describe('metrics', () => {
+    describe('exactMatch', () => {
+        it('compares trimmed strings and structured values', () => {
+            const metric = exactMatch();
+            expect(
+                metric(example({ answer: 'Paris' }), prediction({ answer: ' Paris ' }))
+            ).toBe(true);
+            expect(metric(example({ answer: 'Paris' }), prediction({ answer: 'paris' }))).toBe(
+                false
+            );
+            expect(
+                exactMatch({ field: 'tags' })(
+                    example({ tags: ['a', 'b'] }),
+                    prediction({ tags: ['a', 'b'] })
+                )
+            ).toBe(true);
+        });
+
+        it('accepts any of several labels', () => {
+            expect(
+                exactMatch()(
+                    example({ answer: ['NYC', 'New York'] }),
+                    prediction({ answer: 'NYC' })
+                )
+            ).toBe(true);
+        });
+    });
+
+    describe('normalizedMatch', () => {
+        it('ignores formatting differences', () => {
+            expect(
+                normalizedMatch()(
+                    example({ answer: 'The Eiffel Tower' }),
+                    prediction({ answer: 'eiffel tower.' })
+                )
+            ).toBe(true);
+        });
+    });
+
+    describe('tokenF1', () => {
+        it('scores partial overlap', () => {
+            const score = tokenF1()(
+                example({ answer: 'Barack Obama' }),
+                prediction({ answer: 'President Barack Obama' })
+            );
+            // precision 2/3, recall 1
+            expect(score).toBeCloseTo(0.8);
+        });
+
+        it('takes the best of several labels and scores no overlap as 0', () => {
+            const metric = tokenF1();
+            expect(
+                metric(
+                    example({ answer: ['x', 'blue whale'] }),
+                    prediction({ answer: 'blue whale' })
+                )
+            ).toBe(1);
+            expect(metric(example({ answer: 'cat' }), prediction({ answer: 'dog' }))).toBe(0);
+        });
+    });
+
+    describe('answerPassageMatch', () => {
+        it('finds the answer in any retrieved passage', () => {
+            const metric = answerPassageMatch();
+            const passages = ['Lyon is in France.', 'The capital is Paris.'];
+
+            expect(
+                metric(example({ answer: 'paris' }), prediction({ context: passages }))
+            ).toBe(true);
+            expect(metric(example({ answer: 'Rome' }), prediction({ context: passages }))).toBe(
+                false
+            );
+        });
+    });
+
+    describe('numericMatch', () => {
+        it('matches within an absolute or relative tolerance', () => {
+            expect(
+                numericMatch()(example({ answer: '1,024' }), prediction({ answer: 1024 }))
+            ).toBe(true);
+            expect(
+                numericMatch({ tolerance: 0.01 })(
+                    example({ answer: 3.14159 }),
+                    prediction({ answer: 3.14 })
+                )
+            ).toBe(true);
+            expect(
+                numericMatch({ relativeTolerance: 0.05 })(
+                    example({ answer: 200 }),
+                    prediction({ answer: 209 })
+                )
+            ).toBe(true);
+            expect(numericMatch()(example({ answer: 2 }), prediction({ answer: 'two' }))).toBe(
+                false
+            );
+        });
+    });
+
+    describe('setOverlap', () => {
+        const labels = example({ answer: ['Red', 'green', 'blue'] });
+        const predicted = prediction({ answer: ['red', 'Blue', 'yellow', 'black'] });
+
+        it('scores Jaccard overlap by default', () => {
+            expect(setOverlap()(labels, predicted)).toBeCloseTo(2 / 5);
+        });
+
+        it('supports F1 and exact modes, and reads delimited strings', () => {
+            expect(setOverlap({ mode: 'f1' })(labels, predicted)).toBeCloseTo(4 / 7);
+            expect(
+                setOverlap({ mode: 'exact' })(
+                    labels,
+                    prediction({ answer: 'blue, green, red' })
+                )
+            ).toBe(1);
+        });
+    });
+
+    describe('signatureMatch', () => {
+        class Review extends Signature {
+            @InputField()
+            question!: string;
+
+            @OutputField()
+            summary!: string;
+
+            @OutputField({ type: 'number' })
+            rating!: number;
+
+            @OutputField({ type: 'string[]' })
+            themes!: string[];
+        }
+
+        it('compares each labelled field by its declared type', () => {
+            const metric = signatureMatch(Review);
+            const labels = example({
+                question: 'q',
+                summary: 'Great value.',
+                rating: '4',
+                themes: 'price, quality',
+            });
+
+            expect(
+                metric(
+                    labels,
+                    prediction({
+                        summary: 'great value',
+                        rating: 4,
+                        themes: ['Quality', 'price'],
+                    })
+                )
+            ).toBe(1);
+            expect(
+                metric(labels, prediction({ summary: 'meh', rating: 4, themes: ['price'] }))
+            ).toBeCloseTo((0 + 1 + 0.5) / 3);
+        });
+
+        it('works from a string signature and skips unlabelled fields', () => {
+            const metric = signatureMatch('question -> answer, score: float', {
+                tolerance: 0.1,
+            });
+
+            expect(
+                metric(example({ question: 'q', score: 0.5 }), prediction({ score: 0.55 }))
+            ).toBe(1);
+        });
+    });
+});
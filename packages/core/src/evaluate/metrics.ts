@@ -0,0 +1,287 @@
+import { type Signature } from '../core/signature';
+import type { FieldConfig } from '../types/signature';
+import type { Metric } from '../types/module';
+import { fieldConfigToZod, getOutputFieldConfigs } from '../utils/schema';
+import { normalizeText } from '../utils/text';
+
+/**
+ * Options for the metrics that compare one field. Where a label may list
+ * several acceptable answers — an array on a text field — the prediction is
+ * scored against the best-matching one.
+ */
+export interface FieldMetricOptions {
+    /** Field compared between the example and the prediction. Defaults to `answer`. */
+    field?: string;
+}
+
+export interface NumericMatchOptions extends FieldMetricOptions {
+    /** Largest absolute difference that still matches. Defaults to 1e-6. */
+    tolerance?: number;
+    /** Largest difference relative to the label's magnitude that still matches. Off by default. */
+    relativeTolerance?: number;
+}
+
+export interface SetOverlapOptions extends FieldMetricOptions {
+    /**
+     * `jaccard` scores intersection over union; `f1` weighs precision and recall
+     * equally; `exact` scores 1 only for the same set. Defaults to `jaccard`.
+     */
+    mode?: 'jaccard' | 'f1' | 'exact';
+}
+
+export interface AnswerPassageMatchOptions {
+    /** Field of the example holding the answer, or a list of them. Defaults to `answer`. */
+    answerField?: string;
+    /** Field of the prediction holding the passages. Defaults to `context`. */
+    passagesField?: string;
+}
+
+export interface SignatureMatchOptions {
+    /** Output fields to compare. Defaults to every one the example labels. */
+    fields?: string[];
+    /** Passed to the numeric comparison of `number`, `float` and `int` fields. */
+    tolerance?: number;
+    relativeTolerance?: number;
+    /** How `string[]` and other list fields are compared. Defaults to `jaccard`. */
+    setMode?: SetOverlapOptions['mode'];
+}
+
+/**
+ * Same value, after trimming strings; other values are compared structurally.
+ * Each factory here returns a {@link Metric}, so it plugs straight into
+ * `Evaluate` and the optimizers:
+ *
+ * ```ts
+ * new Evaluate({ devset, metric: exactMatch({ field: 'answer' }) });
+ * ```
+ */
+export function exactMatch(options: FieldMetricOptions = {}): Metric {
+    const field = options.field ?? 'answer';
+    return (example, prediction) => {
+        const predicted = prediction.get(field);
+        // A list prediction is one value to compare, not a set of alternatives.
+        if (Array.isArray(predicted)) return sameValue(example.get(field), predicted);
+        return (
+            bestOf(example.get(field), (expected) => Number(sameValue(expected, predicted))) ===
+            1
+        );
+    };
+}
+
+/**
+ * Same text once both sides are normalized: lower-cased, with punctuation,
+ * articles and extra whitespace removed, as in SQuAD-style evaluation.
+ */
+export function normalizedMatch(options: FieldMetricOptions = {}): Metric {
+    const field = options.field ?? 'answer';
+    return (example, prediction) => {
+        const predicted = normalizeText(String(prediction.get(field) ?? ''));
+        return (
+            bestOf(example.get(field), (expected) =>
+                Number(normalizeText(String(expected)) === predicted)
+            ) === 1
+        );
+    };
+}
+
+/** Token-level F1 between the normalized label and prediction, from 0 to 1. */
+export function tokenF1(options: FieldMetricOptions = {}): Metric {
+    const field = options.field ?? 'answer';
+    return (example, prediction) => {
+        const predicted = tokenize(String(prediction.get(field) ?? ''));
+        return bestOf(example.get(field), (expected) =>
+            f1(tokenize(String(expected)), predicted)
+        );
+    };
+}
+
+/**
+ * Whether the label, or any of several, appears in the passages the program
+ * retrieved — for judging retrieval on its own.
+ */
+export function answerPassageMatch(options: AnswerPassageMatchOptions = {}): Metric {
+    const answerField = options.answerField ?? 'answer';
+    const passagesField = options.passagesField ?? 'context';
+    return (example, prediction) => {
+        const passages = toList(prediction.get(passagesField)).map((passage) =>
+            normalizeText(String(passage))
+        );
+        return (
+            bestOf(example.get(answerField), (answer) => {
+                const needle = normalizeText(String(answer));
+                return Number(needle !== '' && passages.some((text) => text.includes(needle)));
+            }) === 1
+        );
+    };
+}
+
+/**
+ * Numbers within a tolerance of each other. Numeric strings such as `"1,024"`
+ * are coerced the same way a `number` output field is.
+ */
+export function numericMatch(options: NumericMatchOptions = {}): Metric {
+    const field = options.field ?? 'answer';
+    return (example, prediction) =>
+        numbersMatch(example.get(field), prediction.get(field), options);
+}
+
+/** Overlap between two lists, compared item by item after normalization; 0 to 1. */
+export function setOverlap(options: SetOverlapOptions = {}): Metric {
+    const field = options.field ?? 'answer';
+    return (example, prediction) =>
+        overlap(example.get(field), prediction.get(field), options.mode ?? 'jaccard');
+}
+
+/**
+ * Compare every labelled output field of a signature with the method its
+ * declared type calls for, and average the scores:
+ *
+ * - `number`, `float`, `int`: {@link numericMatch}
+ * - `string[]`, `number[]`, `array`, `list`: {@link setOverlap}
+ * - `boolean`, `object`, `json`: exact equality after coercion
+ * - `string` and anything else: {@link normalizedMatch}
+ *
+ * Labels are coerced to the field's type first, so a dataset loaded from CSV
+ * with `"3"` for a `number` field still compares as 3.
+ */
+export function signatureMatch(
+    signature: typeof Signature | string,
+    options: SignatureMatchOptions = {}
+): Metric {
+    const configs = getOutputFieldConfigs(signature);
+
+    return (example, prediction) => {
+        const labels = example.toObject();
+        const fields = (options.fields ?? Object.keys(configs)).filter(
+            (field) => labels[field] !== undefined
+        );
+        if (fields.length === 0) return 0;
+
+        let total = 0;
+        for (const field of fields) {
+            const config = configs[field] ?? { description: field, type: 'string' };
+            total += compareField(config, labels[field], prediction.get(field), options);
+        }
+        return total / fields.length;
+    };
+}
+
+function compareField(
+    config: FieldConfig,
+    expected: unknown,
+    predicted: unknown,
+    options: SignatureMatchOptions
+): number {
+    switch (config.type) {
+        case 'number':
+        case 'float':
+        case 'int':
+        case 'integer':
+            return Number(numbersMatch(expected, predicted, options));
+        case 'string[]':
+        case 'number[]':
+        case 'array':
+        case 'list':
+            return overlap(coerce(config, expected), predicted, options.setMode ?? 'jaccard');
+        case 'boolean':
+        case 'bool':
+        case 'object':
+        case 'json':
+            return Number(sameValue(coerce(config, expected), predicted));
+        default:
+            return bestOf(expected, (label) =>
+                Number(normalizeText(String(label)) === normalizeText(String(predicted ?? '')))
+            );
+    }
+}
+
+/** A label coerced to its field's type, or left as it is when it does not fit. */
+function coerce(config: FieldConfig, value: unknown): unknown {
+    const result = fieldConfigToZod({ ...config, required: true }).safeParse(value);
+    return result.success ? result.data : value;
+}
+
+function numbersMatch(
+    expected: unknown,
+    predicted: unknown,
+    options: { tolerance?: number; relativeTolerance?: number }
+): boolean {
+    const a = toNumber(expected);
+    const b = toNumber(predicted);
+    if (a === undefined || b === undefined) return false;
+
+    const difference = Math.abs(a - b);
+    if (difference <= (options.tolerance ?? 1e-6)) return true;
+    return (
+        options.relativeTolerance !== undefined &&
+        difference <= options.relativeTolerance * Math.abs(a)
+    );
+}
+
+function toNumber(value: unknown): number | undefined {
+    const result = fieldConfigToZod({ description: '', type: 'number' }).safeParse(value);
+    return result.success ? (result.data as number) : undefined;
+}
+
+function overlap(
+    expected: unknown,
+    predicted: unknown,
+    mode: 'jaccard' | 'f1' | 'exact'
+): number {
+    const a = new Set(toList(expected).map((item) => normalizeText(String(item))));
+    const b = new Set(toList(predicted).map((item) => normalizeText(String(item))));
+    if (a.size === 0 && b.size === 0) return 1;
+
+    const common = [...a].filter((item) => b.has(item)).length;
+    if (mode === 'exact') return Number(common === a.size && common === b.size);
+    if (mode === 'f1') {
+        return common === 0 ? 0 : (2 * common) / (a.size + b.size);
+    }
+    return common / (a.size + b.size - common);
+}
+
+/** Lists pass through; a string is read the way a `string[]` output field would read it. */
+function toList(value: unknown): unknown[] {
+    if (value === undefined || value === null) return [];
+    if (Array.isArray(value)) return value;
+    const result = fieldConfigToZod({ description: '', type: 'array' }).safeParse(value);
+    return result.success && Array.isArray(result.data) ? result.data : [value];
+}
+
+function tokenize(text: string): string[] {
+    const normalized = normalizeText(text);
+    return normalized === '' ? [] : normalized.split(' ');
+}
+
+function f1(expected: string[], predicted: string[]): number {
+    if (expected.length === 0 || predicted.length === 0) {
+        return Number(expected.length === predicted.length);
+    }
+
+    const counts = new Map<string, number>();
+    for (const token of expected) counts.set(token, (counts.get(token) ?? 0) + 1);
+    let common = 0;
+    for (const token of predicted) {
+        const left = counts.get(token) ?? 0;
+        if (left > 0) {
+            common += 1;
+            counts.set(token, left - 1);
+        }
+    }
+    if (common === 0) return 0;
+
+    const precision = common / predicted.length;
+    const recall = common / expected.length;
+    return (2 * precision * recall) / (precision + recall);
+}
+
+/** The highest score over one label, or over each of a list of acceptable labels. */
+function bestOf(label: unknown, score: (label: unknown) => number): number {
+    const labels = Array.isArray(label) ? label : [label];
+    return labels.reduce<number>((best, candidate) => Math.max(best, score(candidate)), 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (typeof a === 'string' && typeof b === 'string') return a.trim() === b.trim();
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,113 @@
+import type { EvaluationResult } from './evaluate';
+
+export interface ResultsTableOptions {
+    /** Longer cells are cut short with an ellipsis. Defaults to 40. */
+    maxColumnWidth?: number;
+    /** Rows shown before the rest are summarized. Defaults to all of them. */
+    maxRows?: number;
+}
+
+/**
+ * One flat record per example: its inputs, its labels as `expected <key>`,
+ * the program's outputs as `predicted <key>`, then `score`, and `error` for
+ * failed examples.
+ */
+export function resultRecords(result: EvaluationResult): Array<Record<string, unknown>> {
+    return result.results.map((row, index) => {
+        const record: Record<string, unknown> = { '#': index + 1, ...row.example.getInputs() };
+        for (const [key, value] of Object.entries(row.example.getOutputs())) {
+            record[`expected ${key}`] = value;
+        }
+        for (const [key, value] of Object.entries(row.prediction?.toObject() ?? {})) {
+            record[`predicted ${key}`] = value;
+        }
+        record.score = row.score;
+        if (row.error) record.error = row.error.message;
+        return record;
+    });
+}
+
+/** A plain-text table of the results with a summary line, ready to print. */
+export function formatResultsTable(
+    result: EvaluationResult,
+    options: ResultsTableOptions = {}
+): string {
+    const maxWidth = options.maxColumnWidth ?? 40;
+    const records = resultRecords(result);
+    const shown = records.slice(0, options.maxRows ?? records.length);
+    const columns = columnsOf(shown);
+
+    const cell = (value: unknown): string => {
+        const text = formatCell(value).replace(/\s+/g, ' ');
+        return text.length > maxWidth ? `${text.slice(0, maxWidth - 1)}…` : text;
+    };
+    const rows = shown.map((record) => columns.map((column) => cell(record[column])));
+    const widths = columns.map((column, index) =>
+        Math.max(column.length, ...rows.map((row) => row[index].length))
+    );
+    const line = (cells: string[]) => {
+        // Trailing empty cells are dropped rather than padded out.
+        let end = cells.length;
+        while (end > 1 && cells[end - 1] === '') end--;
+        return cells
+            .slice(0, end)
+            .map((text, index) => text.padEnd(widths[index]))
+            .join(' | ')
+            .trimEnd();
+    };
+
+    const lines = [line(columns), widths.map((width) => '-'.repeat(width)).join('-+-')];
+    lines.push(...rows.map(line));
+    if (shown.length < records.length) {
+        lines.push(`... ${records.length - shown.length} more rows`);
+    }
+    lines.push('');
+    lines.push(
+        `score: ${(result.score * 100).toFixed(2)}% over ${records.length} examples ` +
+            `(${result.failures} failed)`
+    );
+    return lines.join('\n');
+}
+
+/** The results as CSV, one row per example, with a header row. */
+export function resultsToCSV(result: EvaluationResult): string {
+    const records = resultRecords(result);
+    const columns = columnsOf(records);
+    const lines = [columns.map(csvField).join(',')];
+    for (const record of records) {
+        lines.push(columns.map((column) => csvField(formatCell(record[column]))).join(','));
+    }
+    return lines.join('\n');
+}
+
+/** The results, summary and usage as pretty-printed JSON. */
+export function resultsToJSON(result: EvaluationResult): string {
+    return JSON.stringify(
+        {
+            score: result.score,
+            failures: result.failures,
+            usage: result.usage,
+            results: resultRecords(result),
+        },
+        null,
+        2
+    );
+}
+
+/** Every key across the records, in first-seen order. */
+function columnsOf(records: Array<Record<string, unknown>>): string[] {
+    const columns = new Set<string>();
+    for (const record of records) {
+        for (const key of Object.keys(record)) columns.add(key);
+    }
+    return [...columns];
+}
+
+function formatCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function csvField(text: string): string {
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -4,20 +4,126 @@ export * from './types';
 // Core classes
 export { Signature, InputField, OutputField } from './core/signature';
 export { Module } from './core/module';
+export type { TracedCall, BatchOptions } from './core/module';
 export { BaseLM } from './core/base-lm';
 export { Prediction } from './core/prediction';
 export { Example } from './core/example';
-export { configure, getDefaultLM, isCacheEnabled, isTracingEnabled } from './core/config';
+export {
+    configure,
+    withConfig,
+    context,
+    getDefaultLM,
+    getCache,
+    isCacheEnabled,
+    isTracingEnabled,
+} from './core/config';
+export type { ConfigOptions } from './core/config';
+export { getTraceHistory, clearTraceHistory, recordTrace, captureTraces } from './core/trace';
+export type { TraceQuery } from './core/trace';
+export { assert, suggest, withAssertions } from './core/assertions';
+export type { AssertionOptions, AssertionFeedback } from './core/assertions';
+export { STATE_VERSION, migrateState } from './core/state';
+export type { ProgramState, PredictorState, DemoState } from './core/state';
+export { MemoryCache, DiskCache, cacheKey } from './core/cache';
+export type {
+    CacheStore,
+    CacheKeyParts,
+    MemoryCacheOptions,
+    DiskCacheOptions,
+} from './core/cache';
 
 // Errors
-export { TsDspyError, ValidationError, LMError } from './core/errors';
+export {
+    TsDspyError,
+    ValidationError,
+    LMError,
+    AssertionFailedError,
+    MaxStepsExceededError,
+    ToolApprovalRequiredError,
+} from './core/errors';
 export type { FieldValidationIssue } from './core/errors';
 
 // Modules
 export { Predict } from './modules/predict';
+export type { Completion, PredictOptions } from './modules/predict';
 export { ChainOfThought } from './modules/chain-of-thought';
-export { RespAct } from './modules/respact';
-export type { ToolFunction, ToolWithDescription, ToolDefinition } from './modules/respact';
+export type { ChainOfThoughtOptions } from './modules/chain-of-thought';
+export { ProgramOfThought } from './modules/program-of-thought';
+export type { ProgramOfThoughtOptions } from './modules/program-of-thought';
+export { BestOfN } from './modules/best-of-n';
+export type { BestOfNOptions, Reward } from './modules/best-of-n';
+export { Refine } from './modules/refine';
+export type { RefineOptions } from './modules/refine';
+export { MultiChainComparison } from './modules/multi-chain-comparison';
+export type { MultiChainComparisonOptions, VoteCount } from './modules/multi-chain-comparison';
+export { RespAct, serializeTrajectory, TRAJECTORY_VERSION } from './modules/respact';
+export type {
+    ToolFunction,
+    ToolWithDescription,
+    ToolDefinition,
+    ApprovalDecision,
+    ResumeOptions,
+} from './modules/respact';
+export { defineTool } from './modules/tools';
+export type { ToolContext, TypedTool } from './modules/tools';
+
+// Datasets
+export { Dataset } from './datasets/dataset';
+export type {
+    DatasetOptions,
+    FileDatasetOptions,
+    CSVDatasetOptions,
+    SplitOptions,
+    DatasetSplits,
+} from './datasets/dataset';
+export { parseCSV } from './datasets/csv';
+
+// Evaluation
+export { Evaluate } from './evaluate/evaluate';
+export type { EvaluateOptions, EvaluationRow, EvaluationResult } from './evaluate/evaluate';
+export {
+    formatResultsTable,
+    resultsToCSV,
+    resultsToJSON,
+    resultRecords,
+} from './evaluate/table';
+export type { ResultsTableOptions } from './evaluate/table';
+export {
+    exactMatch,
+    normalizedMatch,
+    tokenF1,
+    answerPassageMatch,
+    numericMatch,
+    setOverlap,
+    signatureMatch,
+} from './evaluate/metrics';
+export { normalizeText } from './utils/text';
+export { SemanticF1, Judge, SemanticRecallPrecision, JudgeSignature } from './evaluate/judges';
+export type { JudgeResult, SemanticF1Options, JudgeOptions } from './evaluate/judges';
+export type {
+    FieldMetricOptions,
+    NumericMatchOptions,
+    SetOverlapOptions,
+    AnswerPassageMatchOptions,
+    SignatureMatchOptions,
+} from './evaluate/metrics';
+
+// Optimizers
+export { Teleprompter } from './optimizers/teleprompter';
+export type { CompileOptions } from './optimizers/teleprompter';
+export { LabeledFewShot } from './optimizers/labeled-few-shot';
+export type { LabeledFewShotOptions } from './optimizers/labeled-few-shot';
+export { BootstrapFewShot } from './optimizers/bootstrap-few-shot';
+export type { BootstrapFewShotOptions } from './optimizers/bootstrap-few-shot';
+export { BootstrapFewShotWithRandomSearch } from './optimizers/random-search';
+export type {
+    BootstrapFewShotWithRandomSearchOptions,
+    CandidateKind,
+    CandidateResult,
+    RandomSearchResult,
+} from './optimizers/random-search';
+export { COPRO } from './optimizers/copro';
+export type { COPROOptions, COPROResult, InstructionCandidate } from './optimizers/copro';
 
 // Utilities
 export { buildPrompt, parseOutput } from './utils/parsing';
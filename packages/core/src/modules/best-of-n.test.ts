@@ -0,0 +1,81 @@
+import { BestOfN } from './best-of-n';
+import { Predict } from './predict';
+import { RespAct } from './respact';
+import { MockLM } from '../test-utils';
+
+const length = (_inputs: Record<string, any>, prediction: { get(key: string): any }) =>
+    String(prediction.get('answer')).length;
+
+describe('BestOfN', () => {
+    it('keeps the highest-reward prediction from n runs', async () => {
+        const lm = new MockLM({ responses: ['answer: ab', 'answer: abcd', 'answer: abc'] });
+        const best = new BestOfN(new Predict('question -> answer', lm), {
+            n: 3,
+            reward: length,
+        });
+
+        const result = await best.forward({ question: 'Q' });
+
+        expect(result.get('answer')).toBe('abcd');
+        expect(lm.calls).toHaveLength(3);
+    });
+
+    it('varies the temperature after the first run', async () => {
+        const lm = new MockLM({ responses: ['answer: a', 'answer: b', 'answer: c'] });
+        const best = new BestOfN(new Predict('question -> answer', lm), {
+            n: 3,
+            reward: length,
+        });
+
+        await best.forward({ question: 'Q' }, { maxTokens: 50 });
+
+        const options = lm.calls.map((call) => call.options);
+        expect(options[0]).toEqual({ maxTokens: 50 });
+        expect(options[1]?.maxTokens).toBe(50);
+        expect(new Set(options.map((option) => option?.temperature)).size).toBe(3);
+    });
+
+    it('stops early once the threshold is met', async () => {
+        const lm = new MockLM({ responses: ['answer: a', 'answer: abc', 'answer: abcdef'] });
+        const best = new BestOfN(new Predict('question -> answer', lm), {
+            n: 3,
+            reward: length,
+            threshold: 3,
+        });
+
+        const result = await best.forward({ question: 'Q' });
+
+        expect(result.get('answer')).toBe('abc');
+        expect(lm.calls).toHaveLength(2);
+    });
+
+    it('skips runs that fail validation, and rethrows when all do', async () => {
+        const lm = new MockLM({ responses: ['score: high', 'score: 2'] });
+        const best = new BestOfN(new Predict('question -> score: int', lm), {
+            n: 2,
+            reward: () => 1,
+        });
+        expect((await best.forward({ question: 'Q' })).get('score')).toBe(2);
+
+        const failing = new BestOfN(
+            new Predict('question -> score: int', new MockLM({ responses: ['x', 'y'] })),
+            { n: 2, reward: () => 1 }
+        );
+        await expect(failing.forward({ question: 'Q' })).rejects.toThrow('failed validation');
+    });
+
+    it('wraps a RespAct like any module', async () => {
+        const lm = new MockLM({
+            responses: ['Final Answer: answer: no', 'Final Answer: answer: yes'],
+        });
+        const agent = new RespAct('question -> answer', { tools: {}, lm });
+        const best = new BestOfN(agent, {
+            n: 2,
+            reward: (_inputs, prediction) => prediction.get('answer') === 'yes',
+            threshold: 1,
+        });
+
+        expect((await best.forward({ question: 'Q' })).get('answer')).toBe('yes');
+        expect(best.namedPredictors()).toEqual([]);
+    });
+});
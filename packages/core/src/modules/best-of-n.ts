@@ -0,0 +1,106 @@
+import { Module } from '../core/module';
+import { type Prediction } from '../core/prediction';
+import { LMError, ValidationError } from '../core/errors';
+import type { LLMCallOptions } from '../types/language-model';
+
+/**
+ * Scores one run of a module: `true` or a higher number is better. Gets the
+ * inputs the module was called with and the prediction it made.
+ */
+export type Reward = (
+    inputs: Record<string, any>,
+    prediction: Prediction
+) => number | boolean | Promise<number | boolean>;
+
+export interface BestOfNOptions {
+    /** Runs of the module, at most. */
+    n: number;
+    reward: Reward;
+    /** Stop at the first run whose reward is at least this. When unset, all `n` runs are made. */
+    threshold?: number;
+}
+
+/**
+ * Run a module up to `n` times and keep the prediction with the highest
+ * reward — for outputs a metric can check but a single sample often misses.
+ *
+ * ```ts
+ * const best = new BestOfN(new ChainOfThought('question -> answer'), {
+ *     n: 5,
+ *     reward: (inputs, prediction) => (prediction.get('answer').length <= 100 ? 1 : 0),
+ *     threshold: 1,
+ * });
+ * ```
+ *
+ * The first run uses the caller's options; each later run samples at a
+ * different temperature, so runs differ and miss any response cache. Runs
+ * that fail with a `ValidationError` or `LMError` are skipped, and the last
+ * such error is thrown when every run fails. Works with any module, including
+ * `RespAct`.
+ */
+export class BestOfN<M extends Module = Module> extends Module {
+    readonly module: M;
+    protected readonly n: number;
+    protected readonly reward: Reward;
+    protected readonly threshold?: number;
+
+    constructor(module: M, options: BestOfNOptions) {
+        super();
+        if (options.n < 1) {
+            throw new Error(`${new.target.name} needs n of at least 1 (got ${options.n}).`);
+        }
+        this.module = module;
+        this.n = options.n;
+        this.reward = options.reward;
+        this.threshold = options.threshold;
+    }
+
+    async forward(inputs: Record<string, any>, options?: LLMCallOptions): Promise<Prediction> {
+        return this.search(inputs, options, (callOptions) =>
+            this.module.forward(inputs, callOptions)
+        );
+    }
+
+    /**
+     * The search itself: make runs with `attempt` until one meets the
+     * threshold or `n` are done, calling `afterShortfall` between a scored run
+     * that falls short and the next.
+     */
+    protected async search(
+        inputs: Record<string, any>,
+        options: LLMCallOptions | undefined,
+        attempt: (options: LLMCallOptions | undefined) => Promise<Prediction>,
+        afterShortfall?: (prediction: Prediction, score: number) => Promise<void>
+    ): Promise<Prediction> {
+        let best: { prediction: Prediction; score: number } | undefined;
+        let lastError: ValidationError | LMError | undefined;
+
+        for (let run = 0; run < this.n; run++) {
+            const callOptions =
+                run === 0 ? options : { ...options, temperature: temperatureFor(run, this.n) };
+
+            let prediction: Prediction;
+            try {
+                prediction = await attempt(callOptions);
+            } catch (error) {
+                if (!(error instanceof ValidationError || error instanceof LMError))
+                    throw error;
+                lastError = error;
+                continue;
+            }
+
+            const score = Number(await this.reward(inputs, prediction));
+            if (!best || score > best.score) best = { prediction, score };
+            if (this.threshold !== undefined && score >= this.threshold) break;
+            if (run < this.n - 1) await afterShortfall?.(prediction, score);
+        }
+
+        if (!best) throw lastError!;
+        return best.prediction;
+    }
+}
+
+/** Spread later runs from 0.5 up to just under 1, one temperature each. */
+function temperatureFor(attempt: number, n: number): number {
+    return 0.5 + (0.5 * attempt) / n;
+}
@@ -3,6 +3,8 @@ import { Signature, InputField, OutputField } from '../core/signature';
 import { ValidationError } from '../core/errors';
 import { MockLM } from '../test-utils';
 
+const TWO_STEP = { mode: 'two-step' } as const;
+
 class QA extends Signature {
     @InputField({ description: 'the question' })
     question!: string;
@@ -12,12 +14,95 @@ class QA extends Signature {
 }
 
 describe('ChainOfThought', () => {
+    it('reasons and answers in one call', async () => {
+        const lm = new MockLM({
+            responses: ['reasoning: Paris is the capital of France.\nanswer: Paris'],
+        });
+
+        const result = await new ChainOfThought(QA, lm).forward({
+            question: 'Capital of France?',
+        });
+
+        expect(lm.calls).toHaveLength(1);
+        expect(result.reasoning).toBe('Paris is the capital of France.');
+        expect(result.answer).toBe('Paris');
+    });
+
+    it('asks for reasoning ahead of the outputs', async () => {
+        const lm = new MockLM({ responses: ['reasoning: r\nanswer: Paris'] });
+        await new ChainOfThought(QA, lm).forward({ question: 'Q' });
+
+        const prompt = lm.lastPrompt();
+        expect(prompt).toContain("reasoning (Let's think step by step to reach the answer):");
+        expect(prompt.indexOf('reasoning (')).toBeLessThan(prompt.indexOf('answer ('));
+    });
+
+    it('prepends reasoning to a string signature', async () => {
+        const lm = new MockLM({ responses: ['reasoning: 2 + 2\nanswer: 4'] });
+        const result = await new ChainOfThought('question -> answer: int', lm).forward({
+            question: 'Q',
+        });
+
+        expect(lm.lastPrompt()).toContain('reasoning (string): [your response]\nanswer (int)');
+        expect(result.answer).toBe(4);
+    });
+
+    it('fails validation when the reasoning is missing', async () => {
+        const lm = new MockLM({ responses: ['answer: Paris'] });
+
+        await expect(new ChainOfThought(QA, lm).forward({ question: 'Q' })).rejects.toThrow(
+            ValidationError
+        );
+    });
+
+    it('asks for reasoning through the structured path', async () => {
+        const lm = new MockLM({
+            structuredResponses: [{ reasoning: 'some reasoning', answer: 'Paris' }],
+            capabilities: { supportsStructuredOutput: true },
+        });
+
+        const result = await new ChainOfThought(QA, lm).forward({ question: 'Q' });
+
+        expect(lm.calls).toHaveLength(0);
+        expect(lm.structuredCalls).toHaveLength(1);
+        expect(lm.structuredCalls[0].schema).toMatchObject({
+            required: ['reasoning', 'answer'],
+        });
+        expect(result.reasoning).toBe('some reasoning');
+        expect(result.answer).toBe('Paris');
+    });
+
+    it('repairs a malformed answer, keeping the reasoning field required', async () => {
+        const lm = new MockLM({
+            responses: ['answer: Paris', 'reasoning: It is the capital.\nanswer: Paris'],
+        });
+
+        const result = await new ChainOfThought(QA, lm, { maxRepairAttempts: 1 }).forward({
+            question: 'Q',
+        });
+
+        expect(result.reasoning).toBe('It is the capital.');
+        expect(lm.lastPrompt()).toContain('- reasoning (expected string): field not found');
+    });
+
+    it('leaves the signature itself, and so saved state, unchanged', () => {
+        const cot = new ChainOfThought(QA, new MockLM());
+
+        expect(cot.getSignature()).toBe(QA);
+        expect(Object.keys(QA.getOutputFields())).toEqual(['answer']);
+        expect(Object.keys(cot.dumpState().predictors.self.signature.outputFields)).toEqual([
+            'answer',
+        ]);
+    });
+});
+
+describe('ChainOfThought, two-step', () => {
     it('reasons first, then answers, and returns both', async () => {
         const lm = new MockLM({
             responses: ['Paris is the capital of France.', 'answer: Paris'],
         });
 
-        const result = await new ChainOfThought(QA, lm).forward({
+        const result = await new ChainOfThought(QA, lm, TWO_STEP).forward({
             question: 'Capital of France?',
         });
 
@@ -28,21 +113,24 @@ describe('ChainOfThought', () => {
 
     it('asks for step-by-step reasoning in the first call', async () => {
         const lm = new MockLM({ responses: ['reasoning', 'answer: Paris'] });
-        await new ChainOfThought(QA, lm).forward({ question: 'Q' });
+        await new ChainOfThought(QA, lm, TWO_STEP).forward({ question: 'Q' });
 
         expect(lm.calls[0].messages[0].content).toContain("Let's think step by step");
     });
 
     it('feeds the reasoning into the final prompt', async () => {
         const lm = new MockLM({ responses: ['because of X', 'answer: Paris'] });
-        await new ChainOfThought(QA, lm).forward({ question: 'Q' });
+        await new ChainOfThought(QA, lm, TWO_STEP).forward({ question: 'Q' });
 
         expect(lm.calls[1].messages[0].content).toContain('Reasoning: because of X');
     });
 
     it('passes options through to both calls', async () => {
         const lm = new MockLM({ responses: ['reasoning', 'answer: Paris'] });
-        await new ChainOfThought(QA, lm).forward({ question: 'Q' }, { temperature: 0.3 });
+        await new ChainOfThought(QA, lm, TWO_STEP).forward(
+            { question: 'Q' },
+            { temperature: 0.3 }
+        );
 
         expect(lm.calls[0].options).toEqual({ temperature: 0.3 });
         expect(lm.calls[1].options).toEqual({ temperature: 0.3 });
@@ -56,7 +144,7 @@ describe('ChainOfThought', () => {
 
         const lm = new MockLM({ responses: ['reasoning', 'score: not-a-number'] });
 
-        await expect(new ChainOfThought(Scored, lm).forward({})).rejects.toThrow(
+        await expect(new ChainOfThought(Scored, lm, TWO_STEP).forward({})).rejects.toThrow(
             ValidationError
         );
     });
@@ -68,7 +156,7 @@ describe('ChainOfThought', () => {
             capabilities: { supportsStructuredOutput: true },
         });
 
-        const result = await new ChainOfThought(QA, lm).forward({ question: 'Q' });
+        const result = await new ChainOfThought(QA, lm, TWO_STEP).forward({ question: 'Q' });
 
         // One free-text call for reasoning, one structured call for the answer.
         expect(lm.calls).toHaveLength(1);
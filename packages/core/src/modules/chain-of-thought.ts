@@ -1,14 +1,32 @@
-import { Predict } from './predict';
+import { Predict, type PredictOptions } from './predict';
 import { Prediction } from '../core/prediction';
 import { type Signature } from '../core/signature';
-import type { LLMCallOptions } from '../types/language-model';
+import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
 import type { SignatureOutput } from '../types/signature';
+import { getOutputFieldConfigs } from '../utils/schema';
 
 type WithReasoning<TOutput> = TOutput & { reasoning: string };
 
+export interface ChainOfThoughtOptions extends PredictOptions {
+    /**
+     * `single` (the default) asks for a `reasoning` field ahead of the
+     * signature's outputs, so one call returns both. `two-step` reasons in a
+     * free-text call first, then answers in a second call with that reasoning
+     * in context.
+     */
+    mode?: 'single' | 'two-step';
+}
+
+const REASONING_DESCRIPTION = "Let's think step by step to reach the answer";
+
 /**
- * Two-step prediction: reason in free text, then answer with that reasoning in
- * context. The result carries the signature's output fields plus `reasoning`.
+ * Prediction that reasons before it answers. The result carries the
+ * signature's output fields plus `reasoning`.
+ *
+ * By default this is one call against the signature with a `reasoning` output
+ * field prepended, so the reasoning is validated with the rest of the output
+ * and comes through a provider's structured-output mode like any other field.
+ * Pass `{ mode: 'two-step' }` for a separate free-text reasoning call.
  *
  * Like {@link Predict}, `TOutput` can be supplied for precise output types.
  */
@@ -16,22 +34,59 @@ export class ChainOfThought<
     TSignature extends typeof Signature = typeof Signature,
     TOutput extends Record<string, any> = SignatureOutput<TSignature>,
 > extends Predict<TSignature, TOutput> {
+    readonly mode: 'single' | 'two-step';
+    /** The signature with `reasoning` prepended to its outputs, for single-call mode. */
+    private readonly reasoningSignature: typeof Signature | string;
+
+    constructor(
+        signature: TSignature | string,
+        lm?: ILanguageModel,
+        options: ChainOfThoughtOptions = {}
+    ) {
+        super(signature, lm, options);
+        this.mode = options.mode ?? 'single';
+        this.reasoningSignature = withReasoning(signature);
+    }
+
     async forward(
         inputs: Record<string, any>,
         options?: LLMCallOptions
     ): Promise<Prediction<WithReasoning<TOutput>> & WithReasoning<TOutput>> {
+        return this.traced(inputs, async () => {
+            const { prompt, output, rawOutput, repairs } =
+                this.mode === 'two-step'
+                    ? await this.twoStep(inputs, options)
+                    : await this.singleCall(inputs, options);
+
+            return {
+                prediction: new Prediction(output as WithReasoning<TOutput>) as Prediction<
+                    WithReasoning<TOutput>
+                > &
+                    WithReasoning<TOutput>,
+                prompt,
+                completion: rawOutput,
+                repairs,
+            };
+        });
+    }
+
+    private async singleCall(inputs: Record<string, any>, options?: LLMCallOptions) {
+        const signature = this.reasoningSignature;
+        return this.complete(this.buildPrompt(inputs, signature), options, signature);
+    }
+
+    private async twoStep(inputs: Record<string, any>, options?: LLMCallOptions) {
         // Step 1: reason in the open, as free text.
         const reasoningPrompt = this.buildReasoningPrompt(inputs);
         const reasoning = await this.lm.generate(reasoningPrompt, options);
 
         // Step 2: answer with that reasoning in context, validated against the signature.
-        const finalPrompt = this.buildFinalPrompt(inputs, reasoning);
-        const parsed = (await this.complete(finalPrompt, options)) as TOutput;
-
-        const combinedOutput = { ...parsed, reasoning } as WithReasoning<TOutput>;
-
-        return new Prediction(combinedOutput) as Prediction<WithReasoning<TOutput>> &
-            WithReasoning<TOutput>;
+        // The final prompt carries the reasoning, so it is the one worth tracing.
+        const completion = await this.complete(
+            this.buildFinalPrompt(inputs, reasoning),
+            options
+        );
+        return { ...completion, output: { ...completion.output, reasoning } };
     }
 
     private buildReasoningPrompt(inputs: Record<string, any>): string {
@@ -44,3 +99,15 @@ export class ChainOfThought<
         return `${basePrompt}\n\nReasoning: ${reasoning}\n\nBased on this reasoning, provide your final answer:`;
     }
 }
+
+/** `signature` with a `reasoning` output first, unless it already declares one. */
+function withReasoning(signature: typeof Signature | string): typeof Signature | string {
+    if ('reasoning' in getOutputFieldConfigs(signature)) return signature;
+    if (typeof signature !== 'string') {
+        return signature.prependOutputField('reasoning', {
+            description: REASONING_DESCRIPTION,
+        });
+    }
+    const [inputs, outputs] = signature.split('->').map((part) => part.trim());
+    return `${inputs} -> reasoning, ${outputs}`;
+}
@@ -0,0 +1,108 @@
+import { MultiChainComparison } from './multi-chain-comparison';
+import { Signature, InputField, OutputField } from '../core/signature';
+import { ValidationError } from '../core/errors';
+import { MockLM } from '../test-utils';
+
+class Check extends Signature {
+    @InputField()
+    claim!: string;
+
+    @OutputField({ type: 'number' })
+    total!: number;
+
+    @OutputField({ type: 'boolean' })
+    valid!: boolean;
+}
+
+const chain = (reasoning: string, answer: string) =>
+    `reasoning: ${reasoning}\nanswer: ${answer}`;
+
+describe('MultiChainComparison', () => {
+    it('majority-votes each field and reports the agreement', async () => {
+        const lm = new MockLM({
+            responses: [
+                chain('r1', 'The Paris.'),
+                chain('r2', 'Lyon'),
+                chain('r3', 'paris'),
+                chain('r4', 'Paris'),
+            ],
+        });
+
+        const result = await new MultiChainComparison('question -> answer', {
+            m: 4,
+            lm,
+        }).forward({
+            question: 'Q',
+        });
+
+        expect(result.answer).toBe('The Paris.');
+        expect(result.reasoning).toBe('r1');
+        expect(result.agreement).toBe(0.75);
+        expect(result.votes.answer).toEqual([
+            { value: 'The Paris.', count: 3 },
+            { value: 'Lyon', count: 1 },
+        ]);
+        expect(lm.calls).toHaveLength(4);
+        expect(new Set(lm.calls.map((call) => call.options?.temperature)).size).toBe(4);
+    });
+
+    it('counts values equal once coerced as the same vote', async () => {
+        const lm = new MockLM({
+            structuredResponses: [
+                { reasoning: 'a', total: '42', valid: 'yes' },
+                { reasoning: 'b', total: 42.0, valid: true },
+                { reasoning: 'c', total: 41, valid: false },
+            ],
+            capabilities: { supportsStructuredOutput: true },
+        });
+
+        const result = await new MultiChainComparison(Check, { m: 3, lm }).forward({
+            claim: 'C',
+        });
+
+        expect(result.total).toBe(42);
+        expect(result.valid).toBe(true);
+        expect(result.agreement).toBeCloseTo(2 / 3);
+    });
+
+    it('leaves failed chains out of the count, and throws when all fail', async () => {
+        const lm = new MockLM({
+            responses: [chain('r1', '4'), 'nonsense', chain('r3', '4')],
+        });
+        const result = await new MultiChainComparison('question -> answer: int', {
+            m: 3,
+            lm,
+        }).forward({ question: 'Q' });
+        expect(result.agreement).toBe(1);
+
+        const failing = new MultiChainComparison('question -> answer: int', {
+            m: 2,
+            lm: new MockLM({ responses: ['x', 'y'] }),
+        });
+        await expect(failing.forward({ question: 'Q' })).rejects.toThrow(ValidationError);
+    });
+
+    it('compares the chains to reach a final answer', async () => {
+        const lm = new MockLM({
+            responses: [
+                chain('counted twice', '5'),
+                chain('counted carefully', '4'),
+                chain('counted twice', '5'),
+                chain('attempt 2 is right', '4'),
+            ],
+        });
+
+        const result = await new MultiChainComparison('question -> answer: int', {
+            m: 3,
+            lm,
+            strategy: 'compare',
+        }).forward({ question: 'Q' });
+
+        expect(result.answer).toBe(4);
+        expect(result.reasoning).toBe('attempt 2 is right');
+        expect(result.agreement).toBeCloseTo(1 / 3);
+        expect(lm.lastPrompt()).toContain(
+            'attempts: Attempt 1:\nreasoning: counted twice\nanswer: 5'
+        );
+    });
+});
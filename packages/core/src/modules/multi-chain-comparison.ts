@@ -0,0 +1,232 @@
+import { Module } from '../core/module';
+import { Prediction } from '../core/prediction';
+import { type Signature } from '../core/signature';
+import { LMError, ValidationError } from '../core/errors';
+import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
+import type { FieldConfig, SignatureOutput } from '../types/signature';
+import { fieldConfigToZod, getOutputFieldConfigs } from '../utils/schema';
+import { normalizeText } from '../utils/text';
+import { ChainOfThought } from './chain-of-thought';
+
+export interface MultiChainComparisonOptions {
+    /** Reasoning chains to sample. Defaults to 5. */
+    m?: number;
+    /**
+     * `vote` (the default) takes the most common value of each output field.
+     * `compare` shows every chain to the model, which reasons over them to a
+     * final answer: one more call, but it can side with a well-argued minority.
+     */
+    strategy?: 'vote' | 'compare';
+    /** Language model to use. Defaults to the globally configured one. */
+    lm?: ILanguageModel;
+}
+
+/** How many chains gave one value of a field. */
+export interface VoteCount {
+    value: unknown;
+    count: number;
+}
+
+type WithAgreement<TOutput> = TOutput & {
+    reasoning: string;
+    /**
+     * The share of chains that agree with the final value of each output
+     * field, averaged over the fields: 1 when every chain agrees.
+     */
+    agreement: number;
+    /** Per output field, each distinct value the chains gave, most common first. */
+    votes: Record<string, VoteCount[]>;
+};
+
+type MultiChainPrediction<TOutput> = Prediction<WithAgreement<TOutput>> &
+    WithAgreement<TOutput>;
+
+/**
+ * Self-consistency: sample `m` chains of thought for the same inputs, then
+ * settle on one answer — by majority vote per output field, or by having the
+ * model compare the chains. The result carries the answer, a `reasoning`,
+ * and an `agreement` score from 0 to 1 to use as a confidence signal.
+ *
+ * ```ts
+ * const solve = new MultiChainComparison('question -> answer: number', { m: 5 });
+ * const { answer, agreement } = await solve.forward({ question });
+ * if (agreement < 0.6) escalate(question);
+ * ```
+ *
+ * Votes are counted on values as the signature's coercions normalize them, so
+ * `"42"` and `42.0` agree for a `number` field and `"yes"` and `true` for a
+ * `boolean`. Text is compared ignoring case, punctuation and articles. Ties go
+ * to the value seen first. Chains are sampled at slightly different
+ * temperatures so they differ and miss any response cache; chains that fail
+ * validation are left out of the count.
+ */
+export class MultiChainComparison<
+    TSignature extends typeof Signature = typeof Signature,
+    TOutput extends Record<string, any> = SignatureOutput<TSignature>,
+> extends Module {
+    /** Samples the chains. */
+    readonly chain: ChainOfThought<TSignature, TOutput>;
+    /** Reasons over the chains to the final answer, with the `compare` strategy. */
+    readonly comparer?: ChainOfThought;
+    private readonly m: number;
+    private readonly fields: Record<string, FieldConfig>;
+
+    constructor(signature: TSignature | string, options: MultiChainComparisonOptions = {}) {
+        super(signature, options.lm);
+        this.m = Math.max(1, options.m ?? 5);
+        this.fields = getOutputFieldConfigs(signature);
+        this.chain = new ChainOfThought(signature, options.lm);
+        if (options.strategy === 'compare') {
+            this.comparer = new ChainOfThought(withAttempts(signature), options.lm);
+        }
+    }
+
+    /**
+     * @throws the last chain's error when every chain fails validation or the
+     * model call.
+     */
+    async forward(
+        inputs: Record<string, any>,
+        options?: LLMCallOptions
+    ): Promise<MultiChainPrediction<TOutput>> {
+        const chains = await this.sample(inputs, options);
+        const { fields } = this;
+
+        const final = this.comparer
+            ? (
+                  await this.comparer.forward(
+                      { ...inputs, attempts: describeChains(chains) },
+                      options
+                  )
+              ).toObject()
+            : majority(chains, fields);
+
+        const votes: Record<string, VoteCount[]> = {};
+        let agreement = 0;
+        for (const [name, config] of Object.entries(fields)) {
+            votes[name] = tally(
+                chains.map((chain) => chain[name]),
+                config
+            );
+            const key = voteKey(final[name], config);
+            const agreeing = chains.filter((chain) => voteKey(chain[name], config) === key);
+            agreement += agreeing.length / chains.length;
+        }
+        agreement /= Math.max(1, Object.keys(fields).length);
+
+        const output: Record<string, any> = {};
+        for (const name of Object.keys(fields)) output[name] = final[name];
+        return new Prediction({
+            ...output,
+            reasoning: final.reasoning ?? supportingReasoning(chains, output, fields),
+            agreement,
+            votes,
+        }) as MultiChainPrediction<TOutput>;
+    }
+
+    private async sample(
+        inputs: Record<string, any>,
+        options?: LLMCallOptions
+    ): Promise<Array<Record<string, any>>> {
+        const baseTemperature = options?.temperature ?? 0.7;
+        const settled = await Promise.allSettled(
+            Array.from({ length: this.m }, (_, index) =>
+                this.chain.forward(inputs, {
+                    ...options,
+                    temperature: baseTemperature + 0.001 * index,
+                })
+            )
+        );
+
+        const chains: Array<Record<string, any>> = [];
+        let lastError: unknown;
+        for (const result of settled) {
+            if (result.status === 'fulfilled') {
+                chains.push(result.value.toObject());
+            } else if (
+                result.reason instanceof ValidationError ||
+                result.reason instanceof LMError
+            ) {
+                lastError = result.reason;
+            } else {
+                throw result.reason;
+            }
+        }
+        if (chains.length === 0) throw lastError;
+        return chains;
+    }
+}
+
+/** `signature` with an `attempts` input, for the comparer. */
+function withAttempts(signature: typeof Signature | string): typeof Signature | string {
+    const description = 'independent attempts at this task, each with its reasoning';
+    if (typeof signature !== 'string') {
+        return signature.appendInputField('attempts', { description });
+    }
+    const [inputs, outputs] = signature.split('->').map((part) => part.trim());
+    return `${inputs}, attempts -> ${outputs}`;
+}
+
+function describeChains(chains: Array<Record<string, any>>): string {
+    return chains
+        .map((chain, index) => {
+            const fields = Object.entries(chain)
+                .map(
+                    ([key, value]) =>
+                        `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`
+                )
+                .join('\n');
+            return `Attempt ${index + 1}:\n${fields}`;
+        })
+        .join('\n\n');
+}
+
+/** The most common value of each field, in the form a chain first gave it. */
+function majority(
+    chains: Array<Record<string, any>>,
+    fields: Record<string, FieldConfig>
+): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [name, config] of Object.entries(fields)) {
+        result[name] = tally(
+            chains.map((chain) => chain[name]),
+            config
+        )[0]?.value;
+    }
+    return result;
+}
+
+/** Distinct values and their counts, most common first; ties in order of first appearance. */
+function tally(values: unknown[], config: FieldConfig): VoteCount[] {
+    const counts = new Map<string, VoteCount>();
+    for (const value of values) {
+        if (value === undefined) continue;
+        const key = voteKey(value, config);
+        const entry = counts.get(key);
+        if (entry) entry.count++;
+        else counts.set(key, { value, count: 1 });
+    }
+    // Array.prototype.sort is stable, so equal counts keep first-seen order.
+    return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+/** What two values must share to count as the same vote. */
+function voteKey(value: unknown, config: FieldConfig): string {
+    const parsed = fieldConfigToZod(config).safeParse(value);
+    const normalized = parsed.success ? parsed.data : value;
+    if (typeof normalized === 'string') return `s:${normalizeText(normalized)}`;
+    return `j:${JSON.stringify(normalized)}`;
+}
+
+/** The reasoning of the first chain that reached the final answer on every field. */
+function supportingReasoning(
+    chains: Array<Record<string, any>>,
+    output: Record<string, any>,
+    fields: Record<string, FieldConfig>
+): string {
+    const agrees = (chain: Record<string, any>) =>
+        Object.entries(fields).every(
+            ([name, config]) => voteKey(chain[name], config) === voteKey(output[name], config)
+        );
+    return (chains.find(agrees) ?? chains[0]).reasoning;
+}
@@ -138,6 +138,62 @@ describe('Predict', () => {
         });
     });
 
+    describe('repair attempts', () => {
+        it('re-prompts with the issues and the raw output, then re-validates', async () => {
+            const lm = new MockLM({
+                responses: [
+                    'answer: Paris\nconfidence: very',
+                    'answer: Paris\nconfidence: 0.9',
+                ],
+            });
+            const predict = new Predict(QA, lm, { maxRepairAttempts: 1 });
+
+            const result = await predict.forward({ question: 'Capital of France?' });
+
+            expect(result.confidence).toBe(0.9);
+            expect(lm.calls).toHaveLength(2);
+            const repair = lm.lastPrompt();
+            expect(repair).toContain(
+                'Your previous response was:\n\nanswer: Paris\nconfidence: very'
+            );
+            expect(repair).toContain('- confidence (expected number):');
+        });
+
+        it('throws the last ValidationError once the attempts run out', async () => {
+            const lm = new MockLM({
+                responses: ['confidence: 1', 'confidence: 1', 'confidence: 1'],
+            });
+            const predict = new Predict(QA, lm, { maxRepairAttempts: 2 });
+
+            await expect(predict.forward({ question: 'Q' })).rejects.toThrow(ValidationError);
+            expect(lm.calls).toHaveLength(3);
+        });
+
+        it('repairs string[] fields on the structured path', async () => {
+            const lm = new MockLM({
+                structuredResponses: [{ tags: 7 }, { tags: ['a', 'b'] }],
+                capabilities: { supportsStructuredOutput: true },
+            });
+            const predict = new Predict('text -> tags: string[]', lm, { maxRepairAttempts: 1 });
+
+            const result = await predict.forward({ text: 'T' });
+
+            expect(result.get('tags')).toEqual(['a', 'b']);
+            expect(lm.structuredCalls[1].prompt).toContain(
+                'Your previous response was:\n\n{"tags":7}'
+            );
+        });
+
+        it('fails at once by default', async () => {
+            const lm = new MockLM({ responses: ['answer: Paris\nconfidence: very'] });
+
+            await expect(new Predict(QA, lm).forward({ question: 'Q' })).rejects.toThrow(
+                ValidationError
+            );
+            expect(lm.calls).toHaveLength(1);
+        });
+    });
+
     it('throws a clear error when constructed without a signature', async () => {
         const lm = new MockLM({ responses: ['x'] });
         const predict = new Predict(undefined as any, lm);
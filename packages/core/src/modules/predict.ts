@@ -1,11 +1,41 @@
 import { Module } from '../core/module';
 import { Prediction } from '../core/prediction';
+import { type Example } from '../core/example';
 import { type Signature } from '../core/signature';
 import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
-import { parseOutput, buildPrompt } from '../utils/parsing';
-import { buildOutputSchema, buildOutputJsonSchema } from '../utils/schema';
+import { parseOutput, buildPrompt, validateOutput } from '../utils/parsing';
+import { buildOutputJsonSchema } from '../utils/schema';
+import {
+    checkSignature,
+    describeSignature,
+    dumpDemo,
+    loadDemo,
+    type PredictorState,
+} from '../core/state';
+import { feedbackPrompt } from '../core/assertions';
 import { ValidationError, type FieldValidationIssue } from '../core/errors';
 import type { SignatureOutput } from '../types/signature';
+import type { RepairAttempt } from '../types/module';
+
+/** A validated completion, plus the raw text it was parsed from. */
+export interface Completion {
+    output: Record<string, any>;
+    /** The model's response before parsing: text, or serialized structured output. */
+    rawOutput: string;
+    /** The prompt that produced `rawOutput`: the original, or the last repair prompt. */
+    prompt: string;
+    /** Earlier responses that failed validation and were re-prompted, oldest first. */
+    repairs: RepairAttempt[];
+}
+
+export interface PredictOptions {
+    /**
+     * Times to re-prompt after an output fails validation, showing the model
+     * its response and what was wrong with it. Defaults to 0: the first
+     * failure throws.
+     */
+    maxRepairAttempts?: number;
+}
 
 /**
  * Single-shot prediction against a signature.
@@ -25,18 +55,47 @@ export class Predict<
     TSignature extends typeof Signature = typeof Signature,
     TOutput extends Record<string, any> = SignatureOutput<TSignature>,
 > extends Module {
-    constructor(signature: TSignature | string, lm?: ILanguageModel) {
+    /**
+     * Worked examples rendered into every prompt ahead of the current inputs.
+     * Set by hand, or filled in by an optimizer such as `LabeledFewShot`.
+     */
+    demos: Example[] = [];
+
+    /**
+     * Task instructions that open every prompt, in place of the signature's
+     * `description`. Set by hand, or by an instruction optimizer such as `COPRO`.
+     */
+    instructions?: string;
+
+    /** See {@link PredictOptions.maxRepairAttempts}. */
+    maxRepairAttempts: number;
+
+    constructor(
+        signature: TSignature | string,
+        lm?: ILanguageModel,
+        options: PredictOptions = {}
+    ) {
         super(signature, lm);
+        this.maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? 0);
     }
 
     async forward(
         inputs: Record<string, any>,
         options?: LLMCallOptions
     ): Promise<Prediction<TOutput> & TOutput> {
-        const prompt = this.buildPrompt(inputs);
-        const parsed = (await this.complete(prompt, options)) as TOutput;
+        return this.traced(inputs, async () => {
+            const { output, rawOutput, prompt, repairs } = await this.complete(
+                this.buildPrompt(inputs),
+                options
+            );
 
-        return new Prediction(parsed) as Prediction<TOutput> & TOutput;
+            return {
+                prediction: new Prediction(output as TOutput) as Prediction<TOutput> & TOutput,
+                prompt,
+                completion: rawOutput,
+                repairs,
+            };
+        });
     }
 
     /**
@@ -45,13 +104,49 @@ export class Predict<
      * Uses the provider's native structured-output mode when it has one — that
      * constrains decoding rather than merely asking for JSON — and falls back to
      * parsing labelled text otherwise. Both paths end in the same validation.
+     *
+     * When validation fails and {@link maxRepairAttempts} allows, the model is
+     * re-prompted with its response and the issues found, and the new response
+     * validated in turn. The last failure throws.
+     *
+     * `signature` defaults to this module's; a subclass can pass one it derived
+     * from it, as `ChainOfThought` does to add a `reasoning` field.
      */
     protected async complete(
         prompt: string,
-        options?: LLMCallOptions
-    ): Promise<Record<string, any>> {
-        const signature = this.requireSignature();
+        options?: LLMCallOptions,
+        signature: typeof Signature | string = this.requireSignature()
+    ): Promise<Completion> {
+        const repairs: RepairAttempt[] = [];
+        let currentPrompt = prompt;
+
+        for (;;) {
+            const { rawOutput, validate } = await this.attempt(
+                currentPrompt,
+                options,
+                signature
+            );
+            try {
+                return { output: validate(), rawOutput, prompt: currentPrompt, repairs };
+            } catch (error) {
+                if (
+                    !(error instanceof ValidationError) ||
+                    repairs.length >= this.maxRepairAttempts
+                ) {
+                    throw error;
+                }
+                repairs.push({ prompt: currentPrompt, rawOutput, issues: error.issues });
+                currentPrompt = `${prompt}\n\n${repairNote(rawOutput, error.issues)}`;
+            }
+        }
+    }
 
+    /** Call the model once; validating its response is left to the caller. */
+    private async attempt(
+        prompt: string,
+        options: LLMCallOptions | undefined,
+        signature: typeof Signature | string
+    ): Promise<{ rawOutput: string; validate: () => Record<string, any> }> {
         if (this.lm.getCapabilities().supportsStructuredOutput) {
             const schema = buildOutputJsonSchema(signature);
             const raw = await this.lm.generateStructured<Record<string, any>>(
@@ -59,41 +154,52 @@ export class Predict<
                 schema,
                 options
             );
-            return this.validateStructured(raw);
+            return {
+                rawOutput: JSON.stringify(raw),
+                validate: () => this.validateStructured(raw, signature),
+            };
         }
 
         const rawOutput = await this.lm.generate(prompt, options);
-        return parseOutput(signature, rawOutput);
+        return { rawOutput, validate: () => parseOutput(signature, rawOutput) };
     }
 
     /** Validate a provider's structured response against the signature. */
-    protected validateStructured(raw: Record<string, any>): Record<string, any> {
-        const signature = this.requireSignature();
-        // Optional fields are expressed as nullable in the JSON Schema, so strip
-        // nulls before validating rather than failing on them.
-        const cleaned: Record<string, unknown> = {};
-        for (const [key, value] of Object.entries(raw ?? {})) {
-            if (value !== null) {
-                cleaned[key] = value;
-            }
-        }
+    protected validateStructured(
+        raw: Record<string, any>,
+        signature: typeof Signature | string = this.requireSignature()
+    ): Record<string, any> {
+        return validateOutput(signature, raw);
+    }
+
+    protected isPredictor(): boolean {
+        return true;
+    }
 
-        const result = buildOutputSchema(signature).safeParse(cleaned);
-        if (result.success) {
-            return result.data as Record<string, any>;
+    protected resetOwnState(): void {
+        this.demos = [];
+        this.instructions = undefined;
+    }
+
+    protected dumpOwnState(): PredictorState {
+        let model: string | undefined;
+        try {
+            model = this.lm.getModelName();
+        } catch {
+            // No model configured yet; the state is still worth saving.
         }
+        return {
+            signature: describeSignature(this.requireSignature()),
+            ...(this.instructions !== undefined ? { instructions: this.instructions } : {}),
+            demos: this.demos.map(dumpDemo),
+            ...(model ? { lm: { model } } : {}),
+        };
+    }
 
-        const fields = typeof signature === 'string' ? {} : signature.getOutputFields();
-        const issues: FieldValidationIssue[] = result.error.issues.map((issue) => {
-            const field = String(issue.path[0] ?? '(root)');
-            return {
-                field,
-                expected: fields[field]?.type ?? 'string',
-                received: cleaned[field],
-                message: issue.message,
-            };
-        });
-        throw new ValidationError(issues, JSON.stringify(raw));
+    protected loadOwnState(name: string, state: PredictorState): void {
+        checkSignature(name, state.signature, describeSignature(this.requireSignature()));
+        this.instructions = state.instructions;
+        this.demos = state.demos.map(loadDemo);
     }
 
     protected requireSignature(): typeof Signature | string {
@@ -103,11 +209,27 @@ export class Predict<
         return this.signature;
     }
 
-    protected buildPrompt(inputs: Record<string, any>): string {
-        return buildPrompt(this.requireSignature(), inputs);
+    /**
+     * The prompt for `inputs`: demos and instructions, then the inputs, then —
+     * when retrying after a failed assertion — the outputs that were rejected.
+     */
+    protected buildPrompt(
+        inputs: Record<string, any>,
+        signature: typeof Signature | string = this.requireSignature()
+    ): string {
+        const prompt = buildPrompt(signature, inputs, this.demos, this.instructions);
+        return prompt + feedbackPrompt(this);
     }
 
     protected parseOutput(rawOutput: string): Record<string, any> {
         return parseOutput(this.requireSignature(), rawOutput);
     }
 }
+
+/** What a repair prompt adds: the response that failed, and why. */
+function repairNote(rawOutput: string, issues: FieldValidationIssue[]): string {
+    const problems = issues
+        .map((issue) => `- ${issue.field} (expected ${issue.expected}): ${issue.message}`)
+        .join('\n');
+    return `Your previous response was:\n\n${rawOutput}\n\nIt failed validation:\n${problems}\n\nRespond again with every field, fixing these problems.`;
+}
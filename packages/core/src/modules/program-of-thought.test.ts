@@ -0,0 +1,69 @@
+import { ProgramOfThought } from './program-of-thought';
+import { ValidationError } from '../core/errors';
+import { MockLM } from '../test-utils';
+
+const code = (body: string) => '```javascript\n' + body + '\n```';
+
+describe('ProgramOfThought', () => {
+    it('returns the validated outputs the generated code computes', async () => {
+        const lm = new MockLM({
+            responses: [code('return { answer: inputs.price * 0.17 + "" };')],
+        });
+
+        const result = await new ProgramOfThought('price -> answer: number', { lm }).forward({
+            price: 200,
+        });
+
+        expect(result.answer).toBe(34);
+        expect(result.code).toBe('return { answer: inputs.price * 0.17 + "" };');
+        expect(lm.lastPrompt()).toContain('price: 200');
+        expect(lm.lastPrompt()).toContain('- answer (number)');
+    });
+
+    it('feeds execution errors back and regenerates', async () => {
+        const lm = new MockLM({
+            responses: [code('return { answer: total };'), code('return { answer: 3 };')],
+        });
+
+        const result = await new ProgramOfThought('question -> answer: int', { lm }).forward({
+            question: 'Q',
+        });
+
+        expect(result.answer).toBe(3);
+        expect(lm.calls).toHaveLength(2);
+        expect(lm.lastPrompt()).toContain('return { answer: total };');
+        expect(lm.lastPrompt()).toContain('ReferenceError: total is not defined');
+    });
+
+    it('treats outputs that fail validation as a failed attempt', async () => {
+        const lm = new MockLM({
+            responses: [code('return { answer: "many" };'), code('return { answer: 12 };')],
+        });
+
+        const result = await new ProgramOfThought('question -> answer: int', { lm }).forward({
+            question: 'Q',
+        });
+
+        expect(result.answer).toBe(12);
+        expect(lm.lastPrompt()).toContain('failed: Model output failed validation');
+        expect(lm.lastPrompt()).toContain('- answer (int)');
+    });
+
+    it('throws a ValidationError once the attempts run out', async () => {
+        const lm = new MockLM({ responses: [code('while (true) {}'), code('return 42;')] });
+        const pot = new ProgramOfThought('question -> answer: int', {
+            lm,
+            maxAttempts: 2,
+            timeoutMs: 50,
+        });
+
+        const error = await pot.forward({ question: 'Q' }).catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.issues[0]).toMatchObject({
+            field: '(code)',
+            expected: 'an object of output fields',
+        });
+        expect(lm.lastPrompt()).toMatch(/timed out/i);
+    });
+});
@@ -0,0 +1,186 @@
+import { Module } from '../core/module';
+import { Prediction } from '../core/prediction';
+import { type Signature } from '../core/signature';
+import { ValidationError } from '../core/errors';
+import { describeSignature } from '../core/state';
+import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
+import type { SignatureOutput } from '../types/signature';
+import { validateOutput } from '../utils/parsing';
+import { runInSandbox } from '../utils/sandbox';
+
+export interface ProgramOfThoughtOptions {
+    /** Language model to use. Defaults to the globally configured one. */
+    lm?: ILanguageModel;
+    /** Programs to generate, counting the first, before giving up. Defaults to 3. */
+    maxAttempts?: number;
+    /** Milliseconds one run of the program may take. Defaults to 1000. */
+    timeoutMs?: number;
+    /** Megabytes of heap one run of the program may allocate. Defaults to 64. */
+    memoryLimitMb?: number;
+}
+
+type WithCode<TOutput> = TOutput & { code: string };
+
+/** One program's outcome: validated outputs, or why there are none. */
+type Attempt = { output: Record<string, any> } | { failure: ValidationError };
+
+type ProgramOfThoughtPrediction<TOutput> = Prediction<WithCode<TOutput>> & WithCode<TOutput>;
+
+/**
+ * Prediction by computation: the model writes JavaScript that computes the
+ * signature's outputs, and the outputs are whatever that code returns. Suited
+ * to arithmetic and counting, where a model's own answer is often wrong but
+ * the program it writes is right.
+ *
+ * ```ts
+ * const solve = new ProgramOfThought('question -> answer: number');
+ * const { answer, code } = await solve.forward({ question: 'What is 17% of 2,340?' });
+ * ```
+ *
+ * The code runs in a `node:vm` context in a worker thread, within a time and
+ * memory budget, with the inputs as its only globals. When it throws, exceeds
+ * its budget, or returns outputs that fail validation, the model sees its code
+ * and the error and writes a new program, up to `maxAttempts` in all. The
+ * result carries the validated outputs plus the `code` that produced them.
+ *
+ * The sandbox guards against mistakes, not malice — `node:vm` is not a
+ * security boundary. Requires Node.
+ */
+export class ProgramOfThought<
+    TSignature extends typeof Signature = typeof Signature,
+    TOutput extends Record<string, any> = SignatureOutput<TSignature>,
+> extends Module {
+    private readonly maxAttempts: number;
+    private readonly timeoutMs: number;
+    private readonly memoryLimitMb: number;
+
+    constructor(signature: TSignature | string, options: ProgramOfThoughtOptions = {}) {
+        super(signature, options.lm);
+        this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+        this.timeoutMs = options.timeoutMs ?? 1000;
+        this.memoryLimitMb = options.memoryLimitMb ?? 64;
+    }
+
+    /**
+     * @throws {ValidationError} when no attempt produced valid outputs. Its
+     * issues describe the last attempt's failure.
+     */
+    async forward(
+        inputs: Record<string, any>,
+        options?: LLMCallOptions
+    ): Promise<ProgramOfThoughtPrediction<TOutput>> {
+        return this.traced(inputs, async () => {
+            let prompt = this.buildPrompt(inputs);
+
+            for (let attempt = 1; ; attempt++) {
+                const completion = await this.lm.generate(prompt, options);
+                const code = extractCode(completion);
+                const result = await this.run(code, inputs);
+
+                if ('output' in result) {
+                    return {
+                        prediction: new Prediction({
+                            ...result.output,
+                            code,
+                        }) as ProgramOfThoughtPrediction<TOutput>,
+                        prompt,
+                        completion,
+                    };
+                }
+                if (attempt >= this.maxAttempts) {
+                    throw result.failure;
+                }
+                prompt = `${this.buildPrompt(inputs)}\n\n${retryNote(code, result.failure.message)}`;
+            }
+        });
+    }
+
+    /** Run one program and validate what it returns. */
+    private async run(code: string, inputs: Record<string, any>): Promise<Attempt> {
+        const result = await runInSandbox(code, {
+            inputs,
+            timeoutMs: this.timeoutMs,
+            memoryLimitMb: this.memoryLimitMb,
+        });
+        if (!result.ok) {
+            return { failure: codeFailure(code, 'a program that runs', code, result.error) };
+        }
+        const value = result.value;
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+            const returned = JSON.stringify(value) ?? String(value);
+            return {
+                failure: codeFailure(
+                    code,
+                    'an object of output fields',
+                    value,
+                    `the code returned ${returned}`
+                ),
+            };
+        }
+        try {
+            return { output: validateOutput(this.requireSignature(), value) };
+        } catch (error) {
+            if (error instanceof ValidationError) return { failure: error };
+            throw error;
+        }
+    }
+
+    private buildPrompt(inputs: Record<string, any>): string {
+        const signature = describeSignature(this.requireSignature());
+        const outputs = Object.entries(signature.outputFields)
+            .map(
+                ([name, config]) =>
+                    `- ${name} (${config.type ?? 'string'}): ${config.description}`
+            )
+            .join('\n');
+        const inputLines = Object.keys(signature.inputFields)
+            .filter((name) => inputs[name] !== undefined)
+            .map((name) => `${name}: ${formatValue(inputs[name])}`)
+            .join('\n');
+        const example = Object.keys(signature.outputFields)
+            .map((name) => `${name}: ...`)
+            .join(', ');
+
+        let prompt = signature.description ? `${signature.description}\n\n` : '';
+        prompt += `${inputLines}\n\n`;
+        prompt +=
+            `Write JavaScript that computes these outputs:\n${outputs}\n\n` +
+            'The code is the body of a function. The inputs above are in the global `inputs` ' +
+            `object, e.g. \`inputs.${Object.keys(signature.inputFields)[0] ?? 'question'}\`. ` +
+            `End with \`return { ${example} };\`. It runs synchronously, with no \`require\`, ` +
+            '`import`, `console`, network or filesystem access.\n\n' +
+            'Reply with only the code, in a ```javascript block.';
+        return prompt;
+    }
+
+    private requireSignature(): typeof Signature | string {
+        if (!this.signature) {
+            throw new Error('No signature provided');
+        }
+        return this.signature;
+    }
+}
+
+/** A failure of the program as a whole, rather than of one output field. */
+function codeFailure(
+    code: string,
+    expected: string,
+    received: unknown,
+    message: string
+): ValidationError {
+    return new ValidationError([{ field: '(code)', expected, received, message }], code);
+}
+
+/** The first fenced code block in a reply, or the whole reply when it has none. */
+function extractCode(completion: string): string {
+    const fenced = completion.match(/```[\w-]*[^\S\n]*\n([\s\S]*?)```/);
+    return (fenced ? fenced[1] : completion).trim();
+}
+
+function retryNote(code: string, error: string): string {
+    return `Your previous code:\n\`\`\`javascript\n${code}\n\`\`\`\nfailed: ${error}\n\nFix the problem and reply with the corrected code, in a \`\`\`javascript block.`;
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,87 @@
+import { Refine } from './refine';
+import { Predict } from './predict';
+import { RespAct } from './respact';
+import { Module } from '../core/module';
+import { type Prediction } from '../core/prediction';
+import { assert, withAssertions } from '../core/assertions';
+import { MockLM } from '../test-utils';
+
+describe('Refine', () => {
+    it('critiques a run that falls short and shows the advice to the next', async () => {
+        const lm = new MockLM({
+            responses: ['answer: a very long answer', 'answer: short'],
+        });
+        const critic = new MockLM({ responses: ['advice: Be brief.'] });
+        const refine = new Refine(new Predict('question -> answer', lm), {
+            n: 3,
+            reward: (_inputs, prediction) => (prediction.get('answer').length <= 5 ? 1 : 0),
+            threshold: 1,
+            lm: critic,
+        });
+
+        const result = await refine.forward({ question: 'Q' });
+
+        expect(result.get('answer')).toBe('short');
+        expect(critic.lastPrompt()).toContain(
+            'program_outputs: {"answer":"a very long answer"}'
+        );
+        expect(critic.lastPrompt()).toContain('target: 1');
+        expect(lm.lastPrompt()).toContain('answer: a very long answer\nFeedback: Be brief.');
+        expect(lm.calls[0].messages[0].content).not.toContain('Feedback:');
+    });
+
+    it('shows the advice to a RespAct', async () => {
+        const lm = new MockLM({
+            responses: ['Final Answer: answer: no', 'Final Answer: answer: yes'],
+        });
+        const critic = new MockLM({ responses: ['advice: Say yes.'] });
+        const refine = new Refine(new RespAct('question -> answer', { tools: {}, lm }), {
+            n: 2,
+            reward: (_inputs, prediction) => prediction.get('answer') === 'yes',
+            lm: critic,
+        });
+
+        await refine.forward({ question: 'Q' });
+
+        expect(lm.lastPrompt()).toContain('Feedback: Say yes.');
+    });
+
+    it('does not carry advice over to the next call', async () => {
+        const lm = new MockLM({ respond: () => 'answer: too long' });
+        const critic = new MockLM({ respond: () => 'advice: Shorter.' });
+        const refine = new Refine(new Predict('question -> answer', lm), {
+            n: 2,
+            reward: () => 0,
+            lm: critic,
+        });
+
+        await refine.forward({ question: 'first' });
+        await refine.forward({ question: 'second' });
+
+        expect(lm.calls[2].messages[0].content).not.toContain('Feedback:');
+    });
+
+    it('lets an enclosing withAssertions retry an assertion in the wrapped module', async () => {
+        class NeverBad extends Module {
+            readonly answer: Predict;
+
+            constructor(lm: MockLM) {
+                super();
+                this.answer = new Predict('question -> answer', lm);
+            }
+
+            async forward(inputs: Record<string, any>): Promise<Prediction> {
+                const prediction = await this.answer.forward(inputs);
+                assert(prediction.get('answer') !== 'bad', 'Never answer bad.');
+                return prediction;
+            }
+        }
+        const lm = new MockLM({ responses: ['answer: bad', 'answer: good'] });
+        const refine = new Refine(new NeverBad(lm), { n: 1, reward: () => 1 });
+
+        const result = await withAssertions(() => refine.forward({ question: 'Q' }));
+
+        expect(result.get('answer')).toBe('good');
+        expect(lm.lastPrompt()).toContain('answer: bad\nFeedback: Never answer bad.');
+    });
+});
@@ -0,0 +1,85 @@
+import { type Module } from '../core/module';
+import { type Prediction } from '../core/prediction';
+import { withFeedback, type AssertionFeedback } from '../core/assertions';
+import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
+import { BestOfN, type BestOfNOptions } from './best-of-n';
+import { Predict } from './predict';
+
+export interface RefineOptions extends BestOfNOptions {
+    /** Model that writes the feedback. Defaults to the configured default, like any module. */
+    lm?: ILanguageModel;
+}
+
+const CRITIC_INSTRUCTIONS =
+    'A program was run on the inputs below and produced the outputs below. A reward ' +
+    'function scored them, and the score fell short of the target. Give specific, ' +
+    'actionable advice for producing outputs that score higher on the next attempt.';
+
+/**
+ * {@link BestOfN} that learns between runs: after a run falls short, the model
+ * critiques its outputs, and the next run sees those outputs with the advice.
+ *
+ * ```ts
+ * const refined = new Refine(agent, { n: 3, reward: citesSources, threshold: 1 });
+ * ```
+ *
+ * The advice reaches every module inside the wrapped one that builds prompts —
+ * each `Predict`, `ChainOfThought` and `RespAct` — the same way a failed
+ * assertion's feedback does. Advice accumulates: the third run sees both
+ * earlier runs' outputs. Inside `withAssertions`, an assertion that fails in
+ * the wrapped module is retried as it would be without `Refine`. Needs
+ * `AsyncLocalStorage`.
+ */
+export class Refine<M extends Module = Module> extends BestOfN<M> {
+    /** Writes the advice. A predictor like any other, so an optimizer can tune it. */
+    readonly critic: Predict;
+
+    constructor(module: M, options: RefineOptions) {
+        super(module, options);
+        this.critic = new Predict(
+            'program_inputs, program_outputs, reward, target -> advice',
+            options.lm
+        );
+        this.critic.instructions = CRITIC_INSTRUCTIONS;
+    }
+
+    async forward(inputs: Record<string, any>, options?: LLMCallOptions): Promise<Prediction> {
+        const feedback = new Map<object, AssertionFeedback[]>();
+
+        return this.search(
+            inputs,
+            options,
+            (callOptions) =>
+                withFeedback(feedback, () => this.module.forward(inputs, callOptions)),
+            async (prediction, score) => {
+                const output = prediction.toObject();
+                const advice = await this.critique(inputs, output, score, options);
+                for (const [, module] of this.module.namedSubModules()) {
+                    const previous = feedback.get(module) ?? [];
+                    feedback.set(module, [...previous, { output, message: advice }]);
+                }
+            }
+        );
+    }
+
+    private async critique(
+        inputs: Record<string, any>,
+        output: Record<string, any>,
+        score: number,
+        options: LLMCallOptions | undefined
+    ): Promise<string> {
+        const { advice } = await this.critic.forward(
+            {
+                program_inputs: JSON.stringify(inputs),
+                program_outputs: JSON.stringify(output),
+                reward: String(score),
+                target:
+                    this.threshold === undefined
+                        ? 'as high as possible'
+                        : String(this.threshold),
+            },
+            options
+        );
+        return advice;
+    }
+}
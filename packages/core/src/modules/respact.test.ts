@@ -1,10 +1,16 @@
 import {
     RespAct,
+    serializeTrajectory,
     type ToolFunction,
     type ToolWithDescription,
     type RespActEvent,
 } from './respact';
+import { z } from 'zod';
+import { defineTool } from './tools';
 import { Signature, OutputField, InputField } from '../core/signature';
+import { MaxStepsExceededError, ToolApprovalRequiredError } from '../core/errors';
+import { BaseLM } from '../core/base-lm';
+import type { ChatMessage, ModelCapabilities } from '../types/language-model';
 import { MockLM } from '../test-utils';
 
 // These tests drive the real Module base class and the real parser. The previous
@@ -110,8 +116,8 @@ describe('RespAct', () => {
 
             const result = await (agent as any).executeTool('testTool', 'test input', 0);
 
-            expect(tool).toHaveBeenCalledWith('test input');
-            expect(result).toBe('Tool result');
+            expect(tool).toHaveBeenCalledWith('test input', { signal: undefined });
+            expect(result).toEqual({ output: 'Tool result' });
         });
 
         it('stringifies results from synchronous tools', async () => {
@@ -123,8 +129,8 @@ describe('RespAct', () => {
 
             const result = await (agent as any).executeTool('legacyTool', 'test input', 0);
 
-            expect(tool).toHaveBeenCalledWith('test input');
-            expect(result).toBe('Legacy result');
+            expect(tool).toHaveBeenCalledWith('test input', { signal: undefined });
+            expect(result).toEqual({ output: 'Legacy result' });
         });
 
         it('turns a thrown tool error into an observation', async () => {
@@ -141,7 +147,10 @@ describe('RespAct', () => {
             });
 
             const result = await (agent as any).executeTool('failingTool', 'input', 0);
-            expect(result).toContain('Error executing failingTool: Tool failed');
+            expect(result).toEqual({
+                output: 'Error executing failingTool: Tool failed',
+                error: 'Tool failed',
+            });
         });
 
         it('reports the available tools when asked for an unknown one', async () => {
@@ -150,9 +159,9 @@ describe('RespAct', () => {
                 tools: { knownTool: { description: 'A known tool', function: () => 'result' } },
             });
 
-            const result = await (agent as any).executeTool('unknownTool', 'input', 0);
-            expect(result).toContain("Error: Tool 'unknownTool' not found");
-            expect(result).toContain('Available tools: knownTool');
+            const { output } = await (agent as any).executeTool('unknownTool', 'input', 0);
+            expect(output).toContain("Error: Tool 'unknownTool' not found");
+            expect(output).toContain('Available tools: knownTool');
         });
     });
 
@@ -179,7 +188,7 @@ describe('RespAct', () => {
 
             const result = await agent.forward({ question: 'What is 6 times 7?' });
 
-            expect(calculator).toHaveBeenCalledWith('6 * 7');
+            expect(calculator).toHaveBeenCalledWith('6 * 7', { signal: undefined });
             expect(result.answer).toBe('The result is 42');
             expect(result.steps).toBe(2);
         });
@@ -292,4 +301,696 @@ describe('RespAct', () => {
             expect(types).toContain('tool_result');
         });
     });
+
+    describe('trajectory', () => {
+        it('records each thought, tool call and observation on the result', async () => {
+            const lm = new MockLM({
+                responses: [
+                    'I should look it up.\nAction: lookup\nAction Input: Oslo',
+                    'Action: broken\nAction Input: x',
+                    'Final Answer: answer: 700k',
+                ],
+            });
+            const agent = new RespAct('question -> answer', {
+                tools: {
+                    lookup: () => '700k',
+                    broken: () => {
+                        throw new Error('offline');
+                    },
+                },
+                lm,
+            });
+
+            const { trajectory } = await agent.forward({ question: 'Q' });
+
+            expect(trajectory).toEqual([
+                {
+                    step: 0,
+                    thought: 'I should look it up.',
+                    tool: 'lookup',
+                    input: 'Oslo',
+                    output: '700k',
+                    durationMs: expect.any(Number),
+                },
+                {
+                    step: 1,
+                    thought: '',
+                    tool: 'broken',
+                    input: 'x',
+                    output: 'Error executing broken: offline',
+                    error: 'offline',
+                    durationMs: expect.any(Number),
+                },
+                {
+                    step: 2,
+                    thought: 'Final Answer: answer: 700k',
+                    durationMs: expect.any(Number),
+                },
+            ]);
+        });
+
+        it('gives one entry per native call, with the thought on the first', async () => {
+            const call = (id: string, input: string) => ({
+                id,
+                type: 'function' as const,
+                function: { name: 'echo', arguments: JSON.stringify({ input }) },
+            });
+            const lm = new MockLM({
+                toolResponses: [
+                    { content: 'Both at once.', toolCalls: [call('a', 'x'), call('b', 'y')] },
+                    { content: 'answer: xy', toolCalls: [] },
+                ],
+            });
+            const agent = new RespAct('question -> answer', {
+                tools: { echo: (input: string) => input },
+                lm,
+            });
+
+            const { trajectory } = await agent.forward({ question: 'Q' });
+
+            expect(trajectory.map(({ durationMs: _, ...entry }) => entry)).toEqual([
+                { step: 0, thought: 'Both at once.', tool: 'echo', input: 'x', output: 'x' },
+                { step: 0, thought: '', tool: 'echo', input: 'y', output: 'y' },
+                { step: 1, thought: 'answer: xy' },
+            ]);
+        });
+
+        it('carries the trajectory on the error when steps run out', async () => {
+            const entries: RespActEvent[] = [];
+            const lm = new MockLM({ responses: ['hmm', 'Action: echo\nAction Input: a'] });
+            const agent = new RespAct('question -> answer', {
+                tools: { echo: (input: string) => input },
+                maxSteps: 2,
+                lm,
+                onEvent: (event) => event.type === 'step' && entries.push(event),
+            });
+
+            const error = await agent.forward({ question: 'Q' }).catch((caught) => caught);
+
+            expect(error).toBeInstanceOf(MaxStepsExceededError);
+            expect(error.message).toContain('RespAct exceeded maximum steps (2)');
+            expect(error.trajectory.map((entry: any) => entry.tool)).toEqual([
+                undefined,
+                'echo',
+            ]);
+            expect(entries).toHaveLength(2);
+        });
+
+        it('resumes a saved run without running its tools again', async () => {
+            const lookup = vi.fn().mockReturnValue('700k');
+            const first = new RespAct('question -> answer', {
+                tools: { lookup },
+                maxSteps: 1,
+                lm: new MockLM({ responses: ['Action: lookup\nAction Input: Oslo'] }),
+            });
+            const failure = await first.forward({ question: 'Population?' }).catch((e) => e);
+            const saved = serializeTrajectory({ question: 'Population?' }, failure.trajectory);
+
+            const lm = new MockLM({
+                responses: ['Action: lookup\nAction Input: Oslo', 'Final Answer: answer: 700k'],
+            });
+            const agent = new RespAct('question -> answer', {
+                tools: { lookup },
+                maxSteps: 4,
+                lm,
+            });
+            const result = await agent.resume(saved);
+
+            expect(lookup).toHaveBeenCalledTimes(1);
+            expect(result.answer).toBe('700k');
+            expect(result.steps).toBe(3);
+            expect(result.trajectory).toHaveLength(3);
+            expect(lm.calls[0].messages[0].content).toContain('Question: Population?');
+            expect(lm.calls[0].messages[0].content).toContain(
+                'Action: lookup\nAction Input: Oslo\n\nObservation: 700k'
+            );
+            expect(result.trajectory[1].output).toContain('already made this tool call');
+        });
+
+        it('refuses input that is not a saved trajectory', async () => {
+            const agent = new RespAct('question -> answer', { tools: {}, lm: new MockLM() });
+
+            await expect(agent.resume('{"steps":[]}')).rejects.toThrow(
+                'Not a saved RespAct trajectory'
+            );
+            await expect(
+                agent.resume({ version: 99, inputs: {}, trajectory: [] })
+            ).rejects.toThrow('newer than this version');
+        });
+    });
+
+    describe('tool approval', () => {
+        const sendEmail = (execute: (args: { to: string; body: string }) => unknown) =>
+            defineTool({
+                name: 'send_email',
+                description: 'Send an email.',
+                parameters: z.object({ to: z.string(), body: z.string() }),
+                requiresApproval: true,
+                execute,
+            });
+        const emailCall =
+            'Action: send_email\nAction Input: {"to": "ops@example.com", "body": "Disk full"}';
+
+        it('asks before calling a tool that requires it, and runs it when allowed', async () => {
+            const execute = vi.fn().mockReturnValue('sent');
+            const lookup = vi.fn().mockReturnValue('disk full');
+            const approve = vi.fn().mockResolvedValue('allow');
+            const agent = new RespAct('question -> answer', {
+                tools: {
+                    lookup,
+                    send_email: sendEmail(execute),
+                },
+                approve,
+                lm: new MockLM({
+                    responses: [
+                        'Action: lookup\nAction Input: status',
+                        `Tell ops.\n${emailCall}`,
+                        'Final Answer: answer: done',
+                    ],
+                }),
+            });
+
+            const { trajectory } = await agent.forward({ question: 'Q' });
+
+            expect(approve).toHaveBeenCalledTimes(1);
+            expect(approve).toHaveBeenCalledWith({
+                step: 1,
+                thought: 'Tell ops.',
+                tool: 'send_email',
+                input: '{"to": "ops@example.com", "body": "Disk full"}',
+                args: { to: 'ops@example.com', body: 'Disk full' },
+            });
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(trajectory[0].approval).toBeUndefined();
+            expect(trajectory[1]).toMatchObject({ output: 'sent', approval: 'allowed' });
+        });
+
+        it('tells the model when a call is denied, without running the tool', async () => {
+            const execute = vi.fn();
+            const lm = new MockLM({ responses: [emailCall, 'Final Answer: answer: not sent'] });
+            const agent = new RespAct('question -> answer', {
+                tools: [sendEmail(execute)],
+                approve: () => 'deny',
+                lm,
+            });
+
+            const { trajectory } = await agent.forward({ question: 'Q' });
+
+            expect(execute).not.toHaveBeenCalled();
+            expect(trajectory[0]).toMatchObject({ approval: 'denied' });
+            expect(trajectory[0].output).toContain('did not allow this call to send_email');
+            expect(lm.calls[1].messages[0].content).toContain(
+                'Observation: The user did not allow this call to send_email.'
+            );
+        });
+
+        it('runs an edited call with the edited arguments, checked against the schema', async () => {
+            const execute = vi.fn().mockReturnValue('sent');
+            const agent = new RespAct('question -> answer', {
+                tools: [sendEmail(execute)],
+                approve: ({ args }) => ({ edit: { ...args, to: 'oncall@example.com' } }),
+                lm: new MockLM({ responses: [emailCall, 'Final Answer: answer: sent'] }),
+            });
+
+            const { trajectory } = await agent.forward({ question: 'Q' });
+
+            expect(execute).toHaveBeenCalledWith(
+                { to: 'oncall@example.com', body: 'Disk full' },
+                { signal: undefined }
+            );
+            expect(trajectory[0].approval).toBe('edited');
+            expect(trajectory[0].input).toContain('ops@example.com');
+            expect(trajectory[0].editedInput).toBe(
+                '{"to":"oncall@example.com","body":"Disk full"}'
+            );
+            expect(trajectory[0].output).toContain(
+                'The user changed the input to {"to":"oncall@example.com","body":"Disk full"}'
+            );
+        });
+
+        it('does not ask about arguments that fail the schema', async () => {
+            const approve = vi.fn();
+            const agent = new RespAct('question -> answer', {
+                tools: [sendEmail(vi.fn())],
+                approve,
+                lm: new MockLM({
+                    responses: [
+                        'Action: send_email\nAction Input: {"to": "ops@example.com"}',
+                        'Final Answer: answer: gave up',
+                    ],
+                }),
+            });
+
+            const { trajectory } = await agent.forward({ question: 'Q' });
+
+            expect(approve).not.toHaveBeenCalled();
+            expect(trajectory[0].output).toContain('Invalid arguments for send_email');
+        });
+
+        it('suspends without an approver, and resumes once a decision is made', async () => {
+            const execute = vi.fn().mockReturnValue('sent');
+            const lookup = vi.fn().mockReturnValue('disk full');
+            const tools = { lookup, send_email: sendEmail(execute) };
+            const first = new RespAct('question -> answer', {
+                tools,
+                lm: new MockLM({
+                    responses: [
+                        'Action: lookup\nAction Input: status',
+                        `Tell ops.\n${emailCall}`,
+                    ],
+                }),
+            });
+
+            const error = await first.forward({ question: 'Q' }).catch((caught) => caught);
+
+            expect(error).toBeInstanceOf(ToolApprovalRequiredError);
+            expect(error.pending).toMatchObject({ step: 1, tool: 'send_email' });
+            expect(error.saved.trajectory).toHaveLength(1);
+            expect(execute).not.toHaveBeenCalled();
+
+            const lm = new MockLM({ responses: ['Final Answer: answer: sent'] });
+            const agent = new RespAct('question -> answer', { tools, lm });
+            const result = await agent.resume(JSON.stringify(error.saved), {
+                approval: 'allow',
+            });
+
+            expect(result.answer).toBe('sent');
+            expect(lookup).toHaveBeenCalledTimes(1);
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(lm.calls).toHaveLength(1);
+            expect(result.trajectory.map((entry) => entry.approval)).toEqual([
+                undefined,
+                'allowed',
+                undefined,
+            ]);
+            expect(lm.calls[0].messages[0].content).toContain(
+                'Thought: Tell ops.\nAction: send_email'
+            );
+        });
+
+        it('suspends when the approver asks to, and asks again on resume', async () => {
+            const approve = vi.fn().mockReturnValueOnce('suspend').mockReturnValueOnce('deny');
+            const tools = [sendEmail(vi.fn())];
+            const error = await new RespAct('question -> answer', {
+                tools,
+                approve,
+                lm: new MockLM({ responses: [emailCall] }),
+            })
+                .forward({ question: 'Q' })
+                .catch((caught) => caught);
+
+            const result = await new RespAct('question -> answer', {
+                tools,
+                approve,
+                lm: new MockLM({ responses: ['Final Answer: answer: not sent'] }),
+            }).resume(error.saved);
+
+            expect(approve).toHaveBeenCalledTimes(2);
+            expect(result.trajectory[0].approval).toBe('denied');
+        });
+
+        it('suspends and resumes a native tool call', async () => {
+            const execute = vi.fn().mockReturnValue('sent');
+            const call = {
+                id: 'call_1',
+                type: 'function' as const,
+                function: {
+                    name: 'send_email',
+                    arguments: '{"to":"ops@example.com","body":"Disk full"}',
+                },
+            };
+            const error = await new RespAct('question -> answer', {
+                tools: [sendEmail(execute)],
+                lm: new MockLM({ toolResponses: [{ content: '', toolCalls: [call] }] }),
+            })
+                .forward({ question: 'Q' })
+                .catch((caught) => caught);
+
+            expect(error).toBeInstanceOf(ToolApprovalRequiredError);
+
+            const lm = new MockLM({
+                toolResponses: [{ content: 'answer: sent', toolCalls: [] }],
+            });
+            const result = await new RespAct('question -> answer', {
+                tools: [sendEmail(execute)],
+                lm,
+            }).resume(error.saved, { approval: 'allow' });
+
+            expect(result.answer).toBe('sent');
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(lm.toolCalls[0].messages[0].content).toContain('Observation: sent');
+        });
+
+        it('saves the calls after a suspended native call and runs them on resume', async () => {
+            const execute = vi.fn().mockReturnValue('sent');
+            const lookup = vi.fn().mockReturnValue('disk full');
+            const tools = { send_email: sendEmail(execute), lookup };
+            const error = await new RespAct('question -> answer', {
+                tools,
+                lm: new MockLM({
+                    toolResponses: [
+                        {
+                            content: 'Both.',
+                            toolCalls: [
+                                {
+                                    id: 'call_1',
+                                    type: 'function',
+                                    function: {
+                                        name: 'send_email',
+                                        arguments:
+                                            '{"to":"ops@example.com","body":"Disk full"}',
+                                    },
+                                },
+                                {
+                                    id: 'call_2',
+                                    type: 'function',
+                                    function: {
+                                        name: 'lookup',
+                                        arguments: '{"input":"status"}',
+                                    },
+                                },
+                            ],
+                        },
+                    ],
+                }),
+            })
+                .forward({ question: 'Q' })
+                .catch((caught) => caught);
+
+            expect(error).toBeInstanceOf(ToolApprovalRequiredError);
+            expect(error.saved.remaining).toEqual([
+                { step: 0, thought: '', tool: 'lookup', input: 'status' },
+            ]);
+            expect(lookup).not.toHaveBeenCalled();
+
+            const lm = new MockLM({
+                toolResponses: [{ content: 'answer: sent', toolCalls: [] }],
+            });
+            const result = await new RespAct('question -> answer', { tools, lm }).resume(
+                JSON.parse(JSON.stringify(error.saved)),
+                { approval: 'allow' }
+            );
+
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(lookup).toHaveBeenCalledTimes(1);
+            expect(result.trajectory.map(({ durationMs: _, ...entry }) => entry)).toEqual([
+                {
+                    step: 0,
+                    thought: 'Both.',
+                    tool: 'send_email',
+                    input: '{"to":"ops@example.com","body":"Disk full"}',
+                    output: 'sent',
+                    approval: 'allowed',
+                },
+                { step: 0, thought: '', tool: 'lookup', input: 'status', output: 'disk full' },
+                { step: 1, thought: 'answer: sent' },
+            ]);
+            expect(lm.toolCalls[0].messages[0].content).toContain('Observation: disk full');
+        });
+
+        it('refuses an approval for a run that is not waiting for one', async () => {
+            const agent = new RespAct('question -> answer', { tools: {}, lm: new MockLM() });
+
+            await expect(
+                agent.resume({ version: 2, inputs: {}, trajectory: [] }, { approval: 'allow' })
+            ).rejects.toThrow('no call waiting');
+        });
+    });
+
+    describe('cancellation', () => {
+        it('stops between steps once the signal fires', async () => {
+            const controller = new AbortController();
+            const lm = new MockLM({
+                responses: [
+                    'Action: search\nAction Input: Oslo',
+                    'Final Answer: answer: never reached',
+                ],
+            });
+            const agent = new RespAct('question -> answer', {
+                tools: {
+                    search: () => {
+                        controller.abort();
+                        return 'partial';
+                    },
+                },
+                lm,
+            });
+
+            await expect(
+                agent.forward({ question: 'Q' }, { signal: controller.signal })
+            ).rejects.toMatchObject({ name: 'AbortError' });
+            expect(lm.calls).toHaveLength(1);
+        });
+
+        it('passes the run signal to tools, combined with the deadline', async () => {
+            const received: Array<AbortSignal | undefined> = [];
+            const agent = new RespAct('question -> answer', {
+                tools: [
+                    defineTool({
+                        name: 'fetch_page',
+                        description: 'Fetch a page.',
+                        parameters: z.object({ url: z.string() }),
+                        execute: (_args, context) => {
+                            received.push(context?.signal);
+                            return 'page';
+                        },
+                    }),
+                ],
+                lm: new MockLM({
+                    responses: [
+                        'Action: fetch_page\nAction Input: {"url": "https://example.com"}',
+                        'Final Answer: answer: done',
+                    ],
+                }),
+            });
+
+            await agent.forward({ question: 'Q' }, { deadline: Date.now() + 60_000 });
+
+            expect(received[0]).toBeInstanceOf(AbortSignal);
+            expect(received[0]?.aborted).toBe(false);
+        });
+    });
+
+    describe('typed tools', () => {
+        const distance = () =>
+            defineTool({
+                name: 'distance',
+                description: 'Distance between two cities in km.',
+                parameters: z.object({ from: z.string(), to: z.string() }),
+                execute: vi.fn(({ from, to }: { from: string; to: string }) => ({
+                    km: from.length + to.length,
+                })),
+            });
+
+        it('validates JSON arguments from the text protocol before executing', async () => {
+            const tool = distance();
+            const lm = new MockLM({
+                responses: [
+                    'Action: distance\nAction Input: {"from": "Oslo"}',
+                    'Action: distance\nAction Input: {\n  "from": "Oslo",\n  "to": "Rome"\n}',
+                    'Final Answer: answer: 8 km',
+                ],
+            });
+            const agent = new RespAct('question -> answer', { tools: [tool], lm });
+
+            const result = await agent.forward({ question: 'Q' });
+
+            expect(result.answer).toBe('8 km');
+            expect(tool.execute).toHaveBeenCalledTimes(1);
+            expect(tool.execute).toHaveBeenCalledWith(
+                { from: 'Oslo', to: 'Rome' },
+                { signal: undefined }
+            );
+            const prompts = lm.calls.map((call) => call.messages[0].content);
+            expect(prompts[0]).toContain(
+                'Action Input: a JSON object matching {"type":"object"'
+            );
+            expect(prompts[1]).toContain(
+                'Observation: Invalid arguments for distance:\n- to: '
+            );
+            expect(prompts[2]).toContain('Observation: {"km":8}');
+        });
+
+        it('declares the schema to native tool calling', async () => {
+            const tool = distance();
+            const lm = new MockLM({
+                toolResponses: [
+                    {
+                        content: '',
+                        toolCalls: [
+                            {
+                                id: 'c1',
+                                type: 'function',
+                                function: {
+                                    name: 'distance',
+                                    arguments: '{"from":"A","to":"B"}',
+                                },
+                            },
+                        ],
+                    },
+                    { content: 'answer: 2 km', toolCalls: [] },
+                ],
+            });
+            const agent = new RespAct('question -> answer', { tools: { distance: tool }, lm });
+
+            await agent.forward({ question: 'Q' });
+
+            expect(tool.execute).toHaveBeenCalledWith(
+                { from: 'A', to: 'B' },
+                { signal: undefined }
+            );
+            expect(lm.toolCalls[0].tools[0].parameters).toMatchObject({
+                type: 'object',
+                required: ['from', 'to'],
+            });
+        });
+    });
+
+    describe('native tool calling', () => {
+        const call = (id: string, name: string, input: string) => ({
+            id,
+            type: 'function' as const,
+            function: { name, arguments: JSON.stringify({ input }) },
+        });
+
+        it('uses function calling when the model supports it', async () => {
+            const calculator = vi.fn().mockReturnValue(42);
+            const lm = new MockLM({
+                toolResponses: [
+                    {
+                        content: 'I need to calculate.',
+                        toolCalls: [call('c1', 'calculator', '6 * 7')],
+                    },
+                    { content: 'Final Answer: answer: 42', toolCalls: [] },
+                ],
+            });
+            const agent = new RespAct('question -> answer', {
+                tools: {
+                    calculator: { description: 'Performs arithmetic', function: calculator },
+                },
+                lm,
+            });
+
+            const result = await agent.forward({ question: 'What is 6 times 7?' });
+
+            expect(calculator).toHaveBeenCalledWith('6 * 7', { signal: undefined });
+            expect(result.answer).toBe('42');
+            expect(result.steps).toBe(2);
+            expect(lm.calls).toHaveLength(0);
+            expect(lm.toolCalls[0].tools).toEqual([
+                expect.objectContaining({
+                    name: 'calculator',
+                    description: 'Performs arithmetic',
+                }),
+            ]);
+            expect(lm.toolCalls[0].messages[0].content).not.toContain('Action Input:');
+            expect(lm.toolCalls[1].messages.slice(1)).toEqual([
+                {
+                    role: 'assistant',
+                    content: 'I need to calculate.',
+                    toolCalls: [call('c1', 'calculator', '6 * 7')],
+                },
+                { role: 'tool', content: '42', toolCallId: 'c1', name: 'calculator' },
+            ]);
+        });
+
+        it('answers every call in a turn, including repeats', async () => {
+            const fetch = vi.fn().mockReturnValue('data');
+            const lm = new MockLM({
+                toolResponses: [
+                    {
+                        content: '',
+                        toolCalls: [call('a', 'fetch', 'x'), call('b', 'fetch', 'x')],
+                    },
+                    { content: 'answer: done', toolCalls: [] },
+                ],
+            });
+            const agent = new RespAct('question -> answer', { tools: { fetch }, lm });
+
+            const result = await agent.forward({ question: 'Q' });
+
+            expect(fetch).toHaveBeenCalledTimes(1);
+            expect(result.answer).toBe('done');
+            const results = lm.toolCalls[1].messages.filter(
+                (message) => message.role === 'tool'
+            );
+            expect(results.map((message) => message.toolCallId)).toEqual(['a', 'b']);
+            expect(results[1].content).toContain('already made this tool call');
+        });
+
+        it('asks again in a user turn when the final answer is malformed', async () => {
+            const lm = new MockLM({
+                toolResponses: [
+                    { content: 'Final Answer: answer: four', toolCalls: [] },
+                    { content: 'Final Answer: answer: 4', toolCalls: [] },
+                ],
+            });
+            const agent = new RespAct('question -> answer: int', { tools: {}, lm });
+
+            const result = await agent.forward({ question: 'Q' });
+
+            expect(result.answer).toBe(4);
+            expect(lm.toolCalls[1].messages.at(-1)).toMatchObject({
+                role: 'user',
+                content: expect.stringContaining('missing or malformed for: answer'),
+            });
+        });
+
+        it("falls back to the text protocol unless toolMode is 'native'", async () => {
+            const lm = new MockLM({
+                responses: ['Final Answer: answer: ok'],
+                toolResponses: [{ content: 'Final Answer: answer: native', toolCalls: [] }],
+            });
+
+            const text = new RespAct('question -> answer', { tools: {}, lm, toolMode: 'text' });
+            expect((await text.forward({ question: 'Q' })).answer).toBe('ok');
+
+            const unsupported = new RespAct('question -> answer', {
+                tools: {},
+                lm: new MockLM({ capabilities: { supportsFunctionCalling: false } }),
+                toolMode: 'native',
+            });
+            await expect(unsupported.forward({ question: 'Q' })).rejects.toThrow(
+                /needs a model with function calling/
+            );
+        });
+
+        it('uses the text protocol with a model that reports function calling but has no tools request', async () => {
+            /** A custom provider: its model can call functions, but it only implements chat. */
+            class ChatOnlyLM extends BaseLM {
+                readonly prompts: string[] = [];
+
+                constructor() {
+                    super('custom', 'custom-model');
+                }
+
+                protected async chatRequest(messages: ChatMessage[]): Promise<string> {
+                    this.prompts.push(messages[0].content);
+                    return 'Final Answer: answer: ok';
+                }
+
+                getCapabilities(): ModelCapabilities {
+                    return { ...new MockLM().getCapabilities(), supportsFunctionCalling: true };
+                }
+            }
+            const lm = new ChatOnlyLM();
+
+            const result = await new RespAct('question -> answer', { tools: {}, lm }).forward({
+                question: 'Q',
+            });
+
+            expect(lm.chatWithTools).toBeUndefined();
+            expect(result.answer).toBe('ok');
+            expect(lm.prompts[0]).toContain('Action Input:');
+            await expect(
+                new RespAct('question -> answer', {
+                    tools: {},
+                    lm,
+                    toolMode: 'native',
+                }).forward({
+                    question: 'Q',
+                })
+            ).rejects.toThrow(/needs a model with function calling/);
+        });
+    });
 });
@@ -1,11 +1,32 @@
-import { Module } from '../core/module';
+import { Module, type TracedCall } from '../core/module';
 import { Prediction } from '../core/prediction';
 import { type Signature } from '../core/signature';
-import type { ILanguageModel, LLMCallOptions } from '../types/language-model';
+import type {
+    ChatMessage,
+    ILanguageModel,
+    LLMCallOptions,
+    ToolCall,
+    ToolSpec,
+} from '../types/language-model';
 import type { SignatureOutput } from '../types/signature';
+import type { PendingToolCall, SavedTrajectory, TrajectoryStep } from '../types/module';
 import { parseOutput as utilParseOutput } from '../utils/parsing';
-import { ValidationError } from '../core/errors';
-
+import {
+    MaxStepsExceededError,
+    ToolApprovalRequiredError,
+    ValidationError,
+} from '../core/errors';
+import { feedbackPrompt } from '../core/assertions';
+import {
+    isTypedTool,
+    parseToolArguments,
+    toolJsonSchema,
+    type ToolContext,
+    type TypedTool,
+} from './tools';
+import { callSignal } from '../utils/abort';
+
+/** Gets the tool's input, and a {@link ToolContext} second. */
 export interface ToolFunction {
     (...args: any[]): Promise<any> | any;
 }
@@ -13,9 +34,25 @@ export interface ToolFunction {
 export interface ToolWithDescription {
     description: string;
     function: ToolFunction;
+    /** Ask {@link RespActOptions.approve} before each call, for tools with side effects. */
+    requiresApproval?: boolean;
+}
+
+export type ToolDefinition = ToolFunction | ToolWithDescription | TypedTool;
+
+/** A tool as RespAct keeps it: typed tools keep their schema, the rest take a string. */
+interface ResolvedTool extends ToolWithDescription {
+    typed?: TypedTool;
 }
 
-export type ToolDefinition = ToolFunction | ToolWithDescription;
+/**
+ * What to do with a call to a tool that requires approval: run it, refuse it
+ * (the model is told so), run it with other input, or stop the run to decide
+ * later. An `edit` of a typed tool's arguments is checked against its schema,
+ * like the model's own.
+ */
+export type ApprovalDecision =
+    'allow' | 'deny' | { edit: string | Record<string, unknown> } | 'suspend';
 
 /** Events emitted as the reasoning loop runs, for logging or debugging. */
 export type RespActEvent =
@@ -24,112 +61,522 @@ export type RespActEvent =
     | { type: 'tool_result'; step: number; tool: string; output: string }
     | { type: 'tool_error'; step: number; tool: string; error: unknown }
     | { type: 'repeated_tool_call'; step: number; tool: string; input: string }
-    | { type: 'parse_failed'; step: number; error: unknown };
+    | { type: 'parse_failed'; step: number; error: unknown }
+    | {
+          type: 'approval';
+          step: number;
+          tool: string;
+          input: string;
+          decision: ApprovalDecision;
+      }
+    /** An entry added to the trajectory: collect these to keep the trajectory of a run that fails. */
+    | { type: 'step'; step: number; entry: TrajectoryStep };
 
 export interface RespActOptions {
-    tools: Record<string, ToolDefinition>;
+    /** Tools keyed by name, or a list of {@link defineTool} tools, which carry their names. */
+    tools: Record<string, ToolDefinition> | TypedTool[];
     maxSteps?: number;
     /** Language model to use. Defaults to the globally configured one. */
     lm?: ILanguageModel;
     /** Observe the reasoning loop. Replaces the previous console logging. */
     onEvent?: (event: RespActEvent) => void;
+    /**
+     * How the model calls tools. `native` uses the provider's function calling
+     * (`chatWithTools`); `text` asks for `Action:`/`Action Input:` lines and
+     * parses them out of the reply. `auto`, the default, is `native` when the
+     * model supports it and `text` otherwise.
+     */
+    toolMode?: 'auto' | 'native' | 'text';
+    /**
+     * Decides on each call to a tool marked `requiresApproval`, before it
+     * runs. Without it, such a call stops the run with a
+     * `ToolApprovalRequiredError`, to be resumed once someone has decided.
+     */
+    approve?: (call: PendingToolCall) => ApprovalDecision | Promise<ApprovalDecision>;
+}
+
+export interface ResumeOptions extends LLMCallOptions {
+    /**
+     * The decision on the call a suspended run stopped at. When unset,
+     * `approve` is asked again.
+     */
+    approval?: ApprovalDecision;
+}
+
+type RespActOutput<TSignature extends typeof Signature> = SignatureOutput<TSignature> & {
+    steps: number;
+    /** Everything the loop did, in order, ending with the final answer. */
+    trajectory: TrajectoryStep[];
+};
+
+type RespActPrediction<TSignature extends typeof Signature> = Prediction<
+    RespActOutput<TSignature>
+> &
+    RespActOutput<TSignature>;
+
+/**
+ * The trajectory format written by {@link serializeTrajectory}. Version 2
+ * added `pending`, and version 3 `remaining`.
+ */
+export const TRAJECTORY_VERSION = 3;
+
+/**
+ * Write a run's inputs and trajectory as JSON, for auditing or to
+ * {@link RespAct.resume} later. The trajectory of a failed run comes from
+ * `MaxStepsExceededError.trajectory` or the `step` events.
+ */
+export function serializeTrajectory(
+    inputs: Record<string, any>,
+    trajectory: TrajectoryStep[]
+): string {
+    const saved: SavedTrajectory = { version: TRAJECTORY_VERSION, inputs, trajectory };
+    return JSON.stringify(saved);
 }
 
 export class RespAct<TSignature extends typeof Signature = typeof Signature> extends Module {
-    private tools: Record<string, ToolWithDescription>;
+    private tools: Record<string, ResolvedTool>;
     private maxSteps: number;
     private onEvent?: (event: RespActEvent) => void;
+    private toolMode: 'auto' | 'native' | 'text';
+    private approve?: RespActOptions['approve'];
 
     constructor(signature: string | TSignature, options: RespActOptions) {
         super(signature, options.lm);
 
+        const entries: Array<[string, ToolDefinition]> = Array.isArray(options.tools)
+            ? options.tools.map((tool) => [tool.name, tool])
+            : Object.entries(options.tools);
+
         this.tools = {};
-        for (const [name, tool] of Object.entries(options.tools)) {
-            this.tools[name] =
-                typeof tool === 'function'
-                    ? { description: `Tool: ${name}`, function: tool }
-                    : tool;
+        for (const [name, tool] of entries) {
+            if (typeof tool === 'function') {
+                this.tools[name] = { description: `Tool: ${name}`, function: tool };
+            } else if (isTypedTool(tool)) {
+                this.tools[name] = {
+                    description: tool.description,
+                    function: (args, context: ToolContext) => tool.execute(args, context),
+                    typed: tool,
+                    requiresApproval: tool.requiresApproval,
+                };
+            } else {
+                this.tools[name] = tool;
+            }
         }
         this.maxSteps = options.maxSteps ?? 6;
         this.onEvent = options.onEvent;
+        this.toolMode = options.toolMode ?? 'auto';
+        this.approve = options.approve;
     }
 
     async forward(
         inputs: Record<string, any>,
         options?: LLMCallOptions
-    ): Promise<
-        Prediction<SignatureOutput<TSignature> & { steps: number }> &
-            SignatureOutput<TSignature> & { steps: number }
-    > {
-        let conversation = this.buildInitialPrompt(inputs);
-        const previousToolCalls = new Set<string>();
-
-        for (let step = 0; step < this.maxSteps; step++) {
+    ): Promise<RespActPrediction<TSignature>> {
+        return this.traced(inputs, () => this.run(inputs, [], options));
+    }
+
+    /**
+     * Continue a run from a saved trajectory, as written by
+     * {@link serializeTrajectory}. The model sees the earlier steps as it did
+     * the first time, and their tools are not run again. `maxSteps` counts the
+     * earlier steps too.
+     *
+     * A run suspended for approval, saved from `ToolApprovalRequiredError.saved`,
+     * carries on from the call it stopped at, decided by `options.approval`.
+     *
+     * @throws when `saved` is not a trajectory this version can read.
+     */
+    async resume(
+        saved: SavedTrajectory | string,
+        options?: ResumeOptions
+    ): Promise<RespActPrediction<TSignature>> {
+        const { inputs, trajectory, pending, remaining = [] } = readTrajectory(saved);
+        const { approval, ...callOptions } = options ?? {};
+        if (approval !== undefined && !pending) {
+            throw new Error(
+                'Cannot apply an approval: this trajectory has no call waiting for one.'
+            );
+        }
+        return this.traced(inputs, () =>
+            this.run(
+                inputs,
+                trajectory,
+                options ? callOptions : undefined,
+                pending && { calls: [pending, ...remaining], approval }
+            )
+        );
+    }
+
+    private async run(
+        inputs: Record<string, any>,
+        resumed: TrajectoryStep[],
+        options?: LLMCallOptions,
+        suspended?: { calls: PendingToolCall[]; approval?: ApprovalDecision }
+    ): Promise<TracedCall<RespActPrediction<TSignature>>> {
+        const trajectory = [...resumed];
+        const previousToolCalls = new Set(
+            trajectory
+                .filter((entry) => entry.tool !== undefined && entry.approval !== 'denied')
+                .map((entry) => `${entry.tool}:${entry.input}`)
+        );
+        // One signal for the whole run, so its deadline is not reset at each step.
+        const signal = callSignal(options);
+        const state: LoopState = {
+            inputs,
+            trajectory,
+            previousToolCalls,
+            options: signal ? { ...options, signal } : options,
+        };
+
+        // The call the run stopped at, then the calls of the same turn after it.
+        for (const [index, call] of (suspended?.calls ?? []).entries()) {
+            state.options?.signal?.throwIfAborted();
+            const startedAt = Date.now();
+            const { step, thought, tool, input } = call;
+            const outcome = await this.callTool({ step, thought, tool, input }, state, {
+                decision: index === 0 ? suspended!.approval : undefined,
+                remaining: suspended!.calls.slice(index + 1),
+            });
+            this.record(trajectory, {
+                step,
+                thought,
+                tool,
+                input,
+                ...outcome,
+                durationMs: Date.now() - startedAt,
+            });
+        }
+
+        const firstStep = trajectory.length > 0 ? trajectory.at(-1)!.step + 1 : 0;
+        return this.usesNativeTools()
+            ? this.runNative(state, firstStep)
+            : this.runText(state, firstStep);
+    }
+
+    private usesNativeTools(): boolean {
+        if (this.toolMode === 'text') return false;
+        const supported =
+            this.lm.getCapabilities().supportsFunctionCalling &&
+            typeof this.lm.chatWithTools === 'function';
+        if (this.toolMode === 'native' && !supported) {
+            throw new Error(
+                `RespAct toolMode 'native' needs a model with function calling; ${this.lm.getModelName()} does not support it.`
+            );
+        }
+        return supported;
+    }
+
+    private async runText(
+        state: LoopState,
+        firstStep: number
+    ): Promise<TracedCall<RespActPrediction<TSignature>>> {
+        const { inputs, trajectory, options } = state;
+        const prompt = this.buildInitialPrompt(inputs);
+
+        for (let step = firstStep; step < this.maxSteps; step++) {
+            options?.signal?.throwIfAborted();
+            const startedAt = Date.now();
+            const conversation = prompt + renderTrajectory(trajectory);
             const response = await this.lm.generate(conversation + '\n\nThought:', options);
-            conversation += `\n\nThought: ${response}`;
             this.emit({ type: 'thought', step, text: response });
 
             // Tool use takes priority: a response can mention both an action and a
             // premature final answer, and the action is what advances the loop.
             const toolCall = this.extractToolCall(response);
             if (toolCall) {
-                const toolCallKey = `${toolCall.tool}:${toolCall.input}`;
-                if (previousToolCalls.has(toolCallKey)) {
-                    this.emit({
-                        type: 'repeated_tool_call',
-                        step,
-                        tool: toolCall.tool,
-                        input: toolCall.input,
-                    });
-                    conversation +=
-                        '\n\nObservation: You have already made this tool call. Please move to the next step.';
-                    continue;
-                }
-                previousToolCalls.add(toolCallKey);
-                this.emit({
-                    type: 'tool_call',
+                const call = {
                     step,
-                    tool: toolCall.tool,
-                    input: toolCall.input,
+                    thought: response.slice(0, response.search(/Action:/)).trim(),
+                    ...toolCall,
+                };
+                const outcome = await this.callTool(call, state);
+                this.record(trajectory, {
+                    ...call,
+                    ...outcome,
+                    durationMs: Date.now() - startedAt,
                 });
-
-                const observation = await this.executeTool(toolCall.tool, toolCall.input, step);
-                conversation += `\n\nObservation: ${observation}`;
                 continue;
             }
 
             if (!/final answer:/i.test(response)) {
+                this.record(trajectory, {
+                    step,
+                    thought: response,
+                    durationMs: Date.now() - startedAt,
+                });
                 continue;
             }
 
-            const rawAnswer = this.extractFinalAnswer(response);
-            let parsed: Record<string, any> | null = null;
-            try {
-                parsed = this.parseOutput(rawAnswer);
-            } catch (error) {
-                this.emit({ type: 'parse_failed', step, error });
-                // A malformed final answer is recoverable: tell the model what
-                // shape it owes us and let it try again on the next step.
-                if (error instanceof ValidationError && step < this.maxSteps - 1) {
-                    const fieldList = error.issues.map((issue) => issue.field).join(', ');
-                    conversation += `\n\nObservation: Your Final Answer was missing or malformed for: ${fieldList}. Provide a Final Answer with every required field on its own "field: value" line.`;
-                    continue;
+            const answer = this.parseFinalAnswer(this.extractFinalAnswer(response), step);
+            this.record(trajectory, {
+                step,
+                thought: response,
+                ...('correction' in answer
+                    ? { output: answer.correction, error: answer.error }
+                    : {}),
+                durationMs: Date.now() - startedAt,
+            });
+            if ('correction' in answer) continue;
+
+            return {
+                prediction: this.toPrediction(answer.output, step, trajectory),
+                // The whole conversation, so a trace shows every thought and observation.
+                prompt: conversation + `\n\nThought: ${response}`,
+                completion: response,
+            };
+        }
+
+        options?.signal?.throwIfAborted();
+        throw this.stepsExceeded(trajectory);
+    }
+
+    /**
+     * The loop over provider-native tool calls. Each tool result goes back as a
+     * `tool` message answering its call; a reply that calls no tool is the
+     * final answer.
+     */
+    private async runNative(
+        state: LoopState,
+        firstStep: number
+    ): Promise<TracedCall<RespActPrediction<TSignature>>> {
+        const { inputs, trajectory, options } = state;
+        const prompt = this.buildNativePrompt(inputs);
+        // Resumed steps are shown as a transcript: a trajectory does not keep
+        // the provider's own record of the calls, such as Gemini's signatures.
+        const messages: ChatMessage[] = [
+            {
+                role: 'user',
+                content:
+                    trajectory.length > 0
+                        ? `${prompt}\n\nYour progress so far:${renderTrajectory(trajectory)}`
+                        : prompt,
+            },
+        ];
+        const specs = this.toolSpecs();
+
+        for (let step = firstStep; step < this.maxSteps; step++) {
+            options?.signal?.throwIfAborted();
+            let startedAt = Date.now();
+            const { content, toolCalls } = await this.lm.chatWithTools!(
+                messages,
+                specs,
+                options
+            );
+            messages.push({
+                role: 'assistant',
+                content,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+            });
+            if (content) this.emit({ type: 'thought', step, text: content });
+
+            if (toolCalls.length > 0) {
+                const calls = toolCalls.map((call, index) => ({
+                    step,
+                    thought: index === 0 ? content : '',
+                    tool: call.function.name,
+                    input: this.tools[call.function.name]?.typed
+                        ? call.function.arguments
+                        : toolInput(call),
+                }));
+                // Every call needs a result, or the provider rejects the next request.
+                for (const [index, call] of calls.entries()) {
+                    options?.signal?.throwIfAborted();
+                    // Suspending saves the calls after this one, to run on resume.
+                    const outcome = await this.callTool(call, state, {
+                        remaining: calls.slice(index + 1),
+                    });
+                    this.record(trajectory, {
+                        ...call,
+                        ...outcome,
+                        durationMs: Date.now() - startedAt,
+                    });
+                    startedAt = Date.now();
+                    messages.push({
+                        role: 'tool',
+                        content: outcome.output,
+                        toolCallId: toolCalls[index].id,
+                        name: call.tool,
+                    });
                 }
-                throw error;
+                continue;
+            }
+
+            // A reply that calls no tool is the answer, marked or not.
+            const rawAnswer = /final answer:/i.test(content)
+                ? this.extractFinalAnswer(content)
+                : content;
+            const answer = this.parseFinalAnswer(rawAnswer, step);
+            this.record(trajectory, {
+                step,
+                thought: content,
+                ...('correction' in answer
+                    ? { output: answer.correction, error: answer.error }
+                    : {}),
+                durationMs: Date.now() - startedAt,
+            });
+            if ('correction' in answer) {
+                messages.push({ role: 'user', content: answer.correction });
+                continue;
             }
 
-            const combinedOutput = { ...parsed, steps: step + 1 };
-            return new Prediction(combinedOutput) as Prediction<
-                SignatureOutput<TSignature> & { steps: number }
-            > &
-                SignatureOutput<TSignature> & { steps: number };
+            return {
+                prediction: this.toPrediction(answer.output, step, trajectory),
+                // The trace gets the transcript the text protocol would have produced.
+                prompt: prompt + renderTrajectory(trajectory),
+                completion: content,
+            };
         }
 
-        throw new Error(
-            `RespAct exceeded maximum steps (${this.maxSteps}) without producing a valid final answer`
+        options?.signal?.throwIfAborted();
+        throw this.stepsExceeded(trajectory);
+    }
+
+    /**
+     * Run a tool call, unless the same call was already made or approval was
+     * refused. `decision`, given when resuming, stands in for asking `approve`;
+     * `remaining` are the calls of the same turn still to run, saved if this
+     * one suspends.
+     *
+     * @throws {ToolApprovalRequiredError} when the call has to wait for a decision.
+     */
+    private async callTool(
+        call: PendingToolCall,
+        state: LoopState,
+        {
+            decision,
+            remaining = [],
+        }: { decision?: ApprovalDecision; remaining?: PendingToolCall[] } = {}
+    ): Promise<ToolOutcome> {
+        const { step, tool, input } = call;
+        const toolCallKey = `${tool}:${input}`;
+        if (state.previousToolCalls.has(toolCallKey)) {
+            this.emit({ type: 'repeated_tool_call', step, tool, input });
+            return {
+                output: 'You have already made this tool call. Please move to the next step.',
+            };
+        }
+
+        const resolved = this.tools[tool];
+        let runInput = input;
+        let approval: TrajectoryStep['approval'];
+        const parsed = resolved?.typed ? parseToolArguments(resolved.typed, input) : undefined;
+        // Arguments that fail the schema go back to the model without asking anyone.
+        if (resolved?.requiresApproval && parsed?.success !== false) {
+            const pending = parsed?.success ? { ...call, args: parsed.data } : call;
+            decision ??= this.approve ? await this.approve(pending) : 'suspend';
+            this.emit({ type: 'approval', step, tool, input, decision });
+
+            if (decision === 'suspend') throw this.suspended(state, pending, remaining);
+            if (decision === 'deny') {
+                return {
+                    output: `The user did not allow this call to ${tool}. Do not make it again; find another way, or answer without it.`,
+                    approval: 'denied',
+                };
+            }
+            if (decision === 'allow') {
+                approval = 'allowed';
+            } else {
+                const { edit } = decision;
+                runInput = typeof edit === 'string' ? edit : JSON.stringify(edit);
+                approval = 'edited';
+            }
+        }
+
+        state.previousToolCalls.add(toolCallKey);
+        this.emit({ type: 'tool_call', step, tool, input: runInput });
+        const outcome = await this.executeTool(tool, runInput, step, state.options?.signal);
+        if (approval !== 'edited') return approval ? { ...outcome, approval } : outcome;
+        return {
+            ...outcome,
+            output: `The user changed the input to ${runInput} before running it.\n${outcome.output}`,
+            approval,
+            editedInput: runInput,
+        };
+    }
+
+    private suspended(
+        state: LoopState,
+        pending: PendingToolCall,
+        remaining: PendingToolCall[]
+    ): ToolApprovalRequiredError {
+        return new ToolApprovalRequiredError(
+            `RespAct is waiting for approval of a call to ${pending.tool}`,
+            {
+                version: TRAJECTORY_VERSION,
+                inputs: state.inputs,
+                trajectory: state.trajectory,
+                pending,
+                ...(remaining.length > 0 ? { remaining } : {}),
+            }
         );
     }
 
+    private record(trajectory: TrajectoryStep[], entry: TrajectoryStep): void {
+        trajectory.push(entry);
+        this.emit({ type: 'step', step: entry.step, entry });
+    }
+
+    /**
+     * Parse a final answer. A malformed one is recoverable while steps remain:
+     * the result is then the correction to show the model, telling it what
+     * shape it owes us.
+     */
+    private parseFinalAnswer(
+        rawAnswer: string,
+        step: number
+    ): { output: Record<string, any> } | { correction: string; error: string } {
+        try {
+            return { output: this.parseOutput(rawAnswer) };
+        } catch (error) {
+            this.emit({ type: 'parse_failed', step, error });
+            if (error instanceof ValidationError && step < this.maxSteps - 1) {
+                const fieldList = error.issues.map((issue) => issue.field).join(', ');
+                return {
+                    correction: `Your Final Answer was missing or malformed for: ${fieldList}. Provide a Final Answer with every required field on its own "field: value" line.`,
+                    error: error.message,
+                };
+            }
+            throw error;
+        }
+    }
+
+    private toPrediction(
+        output: Record<string, any>,
+        step: number,
+        trajectory: TrajectoryStep[]
+    ): RespActPrediction<TSignature> {
+        return new Prediction({
+            ...output,
+            steps: step + 1,
+            trajectory,
+        }) as RespActPrediction<TSignature>;
+    }
+
+    private stepsExceeded(trajectory: TrajectoryStep[]): MaxStepsExceededError {
+        return new MaxStepsExceededError(
+            `RespAct exceeded maximum steps (${this.maxSteps}) without producing a valid final answer`,
+            trajectory
+        );
+    }
+
+    /** Typed tools declare their schema; every other tool takes one string. */
+    private toolSpecs(): ToolSpec[] {
+        return Object.entries(this.tools).map(([name, tool]) => ({
+            name,
+            description: tool.description,
+            parameters: tool.typed
+                ? toolJsonSchema(tool.typed)
+                : {
+                      type: 'object',
+                      properties: {
+                          input: { type: 'string', description: 'Input to the tool' },
+                      },
+                      required: ['input'],
+                      additionalProperties: false,
+                  },
+        }));
+    }
+
     protected parseOutput(rawOutput: unknown): Record<string, any> {
         if (!this.signature) {
             throw new Error('No signature provided for RespAct parsing');
@@ -145,20 +592,13 @@ export class RespAct<TSignature extends typeof Signature = typeof Signature> ext
 
     private buildInitialPrompt(inputs: Record<string, any>): string {
         const toolDescriptions = Object.entries(this.tools)
-            .map(([name, tool]) => `- ${name}: ${tool.description}`)
+            .map(([name, tool]) =>
+                tool.typed
+                    ? `- ${name}: ${tool.description}\n  Action Input: a JSON object matching ${JSON.stringify(toolJsonSchema(tool.typed))}`
+                    : `- ${name}: ${tool.description}`
+            )
             .join('\n');
-
-        let outputFormatInstruction = '';
-        if (typeof this.signature !== 'string' && this.signature) {
-            const fieldNames = Object.keys(this.signature.getOutputFields());
-            if (fieldNames.length > 0) {
-                outputFormatInstruction =
-                    '\n\nWhen providing your Final Answer, include all of the following fields, each on its own line:\n\n';
-                for (const field of fieldNames) {
-                    outputFormatInstruction += `${field}: [your response for ${field}]\n`;
-                }
-            }
-        }
+        const outputFormatInstruction = this.outputFormatInstruction();
 
         return `You have access to the following tools:
 ${toolDescriptions}
@@ -176,34 +616,90 @@ Action Input: [input to the tool]
 
 When you have everything you need, respond with:
 Thought: [why you now have enough]
-Final Answer: [complete answer to the original question]${outputFormatInstruction}
+Final Answer: [complete answer to the original question]${outputFormatInstruction}${feedbackPrompt(this)}
 
 Begin.`;
     }
 
+    /** The text protocol's prompt without the protocol: the provider describes the tools. */
+    private buildNativePrompt(inputs: Record<string, any>): string {
+        return `Question: ${inputs.question ?? JSON.stringify(inputs)}
+
+Use the available tools to gather what you need before answering. Call one tool at a time and wait for its result.
+
+When you have everything you need, reply without calling a tool, in this format:
+Final Answer: [complete answer to the original question]${this.outputFormatInstruction()}${feedbackPrompt(this)}`;
+    }
+
+    private outputFormatInstruction(): string {
+        if (typeof this.signature === 'string' || !this.signature) return '';
+        const fieldNames = Object.keys(this.signature.getOutputFields());
+        if (fieldNames.length === 0) return '';
+
+        let instruction =
+            '\n\nWhen providing your Final Answer, include all of the following fields, each on its own line:\n\n';
+        for (const field of fieldNames) {
+            instruction += `${field}: [your response for ${field}]\n`;
+        }
+        return instruction;
+    }
+
     private extractToolCall(response: string): { tool: string; input: string } | null {
         const actionMatch = response.match(/Action:\s*(.+?)(?=\n|$)/m);
         const inputMatch = response.match(/Action Input:\s*(.+?)(?=\n|$)/m);
 
-        if (actionMatch && inputMatch) {
-            return { tool: actionMatch[1].trim(), input: inputMatch[1].trim() };
+        if (!actionMatch || !inputMatch) return null;
+
+        let input = inputMatch[1].trim();
+        // A typed tool's JSON arguments may span lines; take them up to the last brace.
+        if (input.startsWith('{')) {
+            const start = inputMatch.index! + inputMatch[0].indexOf('{');
+            const end = response.lastIndexOf('}');
+            if (end > start) input = response.slice(start, end + 1);
         }
-        return null;
+        return { tool: actionMatch[1].trim(), input };
     }
 
-    private async executeTool(toolName: string, input: string, step: number): Promise<string> {
+    /** The observation to show the model, and what went wrong when the call failed. */
+    private async executeTool(
+        toolName: string,
+        input: string,
+        step: number,
+        signal?: AbortSignal
+    ): Promise<ToolOutcome> {
         if (!(toolName in this.tools)) {
-            return `Error: Tool '${toolName}' not found. Available tools: ${Object.keys(this.tools).join(', ')}`;
+            const error = `Tool '${toolName}' not found`;
+            return {
+                output: `Error: ${error}. Available tools: ${Object.keys(this.tools).join(', ')}`,
+                error,
+            };
+        }
+
+        const tool = this.tools[toolName];
+        let args: unknown = input;
+        if (tool.typed) {
+            const parsed = parseToolArguments(tool.typed, input);
+            if (!parsed.success) {
+                this.emit({ type: 'tool_error', step, tool: toolName, error: parsed.error });
+                return { output: parsed.error, error: parsed.error };
+            }
+            args = parsed.data;
         }
 
         try {
-            const result = await this.tools[toolName].function(input);
-            const output = String(result);
+            const context: ToolContext = { signal };
+            const result = await tool.function(args, context);
+            // Typed tools may return anything; plain tools always have been stringified.
+            const output =
+                tool.typed && typeof result !== 'string'
+                    ? (JSON.stringify(result) ?? String(result))
+                    : String(result);
             this.emit({ type: 'tool_result', step, tool: toolName, output });
-            return output;
+            return { output };
         } catch (error) {
             this.emit({ type: 'tool_error', step, tool: toolName, error });
-            return `Error executing ${toolName}: ${error instanceof Error ? error.message : String(error)}`;
+            const message = error instanceof Error ? error.message : String(error);
+            return { output: `Error executing ${toolName}: ${message}`, error: message };
         }
     }
 
@@ -213,3 +709,66 @@ Begin.`;
         return match ? match[1].trim() : '';
     }
 }
+
+/** What one step of the loop works with, shared by both protocols. */
+interface LoopState {
+    inputs: Record<string, any>;
+    trajectory: TrajectoryStep[];
+    /** `tool:input` of every call made, so a repeat is not run again. */
+    previousToolCalls: Set<string>;
+    options?: LLMCallOptions;
+}
+
+/** What a tool call adds to its trajectory entry. */
+type ToolOutcome = Pick<TrajectoryStep, 'output' | 'error' | 'approval' | 'editedInput'> & {
+    output: string;
+};
+
+/**
+ * A trajectory as the text protocol writes it, to continue the conversation
+ * from: each thought, the action it took, and what came back.
+ */
+function renderTrajectory(trajectory: TrajectoryStep[]): string {
+    return trajectory
+        .map((entry) => {
+            let text = entry.thought ? `\n\nThought: ${entry.thought}` : '';
+            if (entry.tool !== undefined) {
+                text += `${entry.thought ? '\n' : '\n\n'}Action: ${entry.tool}\nAction Input: ${entry.input}`;
+            }
+            if (entry.output !== undefined) text += `\n\nObservation: ${entry.output}`;
+            return text;
+        })
+        .join('');
+}
+
+function readTrajectory(saved: SavedTrajectory | string): SavedTrajectory {
+    const value = (
+        typeof saved === 'string' ? JSON.parse(saved) : saved
+    ) as Partial<SavedTrajectory>;
+    if (typeof value?.version !== 'number' || !Array.isArray(value.trajectory)) {
+        throw new Error('Not a saved RespAct trajectory: missing "version" or "trajectory".');
+    }
+    if (value.version > TRAJECTORY_VERSION) {
+        throw new Error(
+            `Trajectory version ${value.version} is newer than this version of ts-dspy supports (${TRAJECTORY_VERSION}).`
+        );
+    }
+    return {
+        version: value.version,
+        inputs: value.inputs ?? {},
+        trajectory: value.trajectory,
+        ...(value.pending ? { pending: value.pending } : {}),
+        ...(value.remaining ? { remaining: value.remaining } : {}),
+    };
+}
+
+/** The string a native tool call passes, falling back to its raw arguments. */
+function toolInput(call: ToolCall): string {
+    try {
+        const args = JSON.parse(call.function.arguments);
+        if (typeof args?.input === 'string') return args.input;
+    } catch {
+        // not JSON: pass it through as is
+    }
+    return call.function.arguments;
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { defineTool, parseToolArguments, toolJsonSchema } from './tools';
+
+const weather = defineTool({
+    name: 'weather',
+    description: 'Current weather for a city.',
+    parameters: z.object({
+        city: z.string().describe('city name'),
+        days: z.number().int().min(1).default(1),
+    }),
+    execute: ({ city, days }) => `${city} for ${days} day(s)`,
+});
+
+describe('defineTool', () => {
+    it('types execute from the schema', () => {
+        expectTypeOf(weather.execute)
+            .parameter(0)
+            .toEqualTypeOf<{ city: string; days: number }>();
+        expect(weather.execute({ city: 'Oslo', days: 2 })).toBe('Oslo for 2 day(s)');
+    });
+
+    it('derives the JSON Schema the model writes arguments against', () => {
+        expect(toolJsonSchema(weather)).toEqual({
+            type: 'object',
+            properties: {
+                city: { type: 'string', description: 'city name' },
+                days: { type: 'integer', minimum: 1, default: 1, maximum: expect.any(Number) },
+            },
+            required: ['city'],
+        });
+    });
+});
+
+describe('parseToolArguments', () => {
+    it('applies the schema, defaults included', () => {
+        expect(parseToolArguments(weather, '{"city":"Oslo"}')).toEqual({
+            success: true,
+            data: { city: 'Oslo', days: 1 },
+        });
+    });
+
+    it('explains what is wrong, per argument', () => {
+        const result = parseToolArguments(weather, '{"days":0}');
+
+        expect(result.success).toBe(false);
+        expect(!result.success && result.error).toMatch(
+            /^Invalid arguments for weather:\n- city: /
+        );
+        expect(!result.success && result.error).toContain('- days: ');
+    });
+
+    it('rejects arguments that are not JSON', () => {
+        const result = parseToolArguments(weather, 'Oslo');
+
+        expect(!result.success && result.error).toBe(
+            'Invalid arguments for weather: expected a JSON object, got Oslo'
+        );
+    });
+});
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+/** What a tool is called with besides its input. */
+export interface ToolContext {
+    /**
+     * Aborts when the run is cancelled or its deadline passes. Pass it on to
+     * `fetch` and the like, so a cancelled run stops its tools too.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * A tool whose arguments are described by a zod object schema. Build one with
+ * {@link defineTool} so `execute` is typed from the schema.
+ */
+export interface TypedTool<TParameters extends z.ZodObject = z.ZodObject> {
+    name: string;
+    /** What the tool does and when to use it: the model decides from this. */
+    description: string;
+    parameters: TParameters;
+    /** Ask `RespActOptions.approve` before each call, for tools with side effects. */
+    requiresApproval?: boolean;
+    /** Called with the arguments once they have passed `parameters`. RespAct always passes `context`. */
+    execute(args: z.output<TParameters>, context?: ToolContext): unknown;
+}
+
+/**
+ * Define a tool for `RespAct` whose arguments are validated before it runs.
+ *
+ * ```ts
+ * const weather = defineTool({
+ *     name: 'weather',
+ *     description: 'Current weather for a city.',
+ *     parameters: z.object({ city: z.string(), units: z.enum(['c', 'f']).default('c') }),
+ *     execute: ({ city, units }) => fetchWeather(city, units),
+ * });
+ * ```
+ *
+ * The model is shown the JSON Schema of `parameters`, in the prompt or through
+ * native function calling. Arguments that fail the schema never reach
+ * `execute`: the model gets the validation errors as its observation instead.
+ * A result that is not a string is passed back as JSON.
+ */
+export function defineTool<TParameters extends z.ZodObject>(
+    tool: TypedTool<TParameters>
+): TypedTool<TParameters> {
+    return tool;
+}
+
+export function isTypedTool(value: unknown): value is TypedTool {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        'parameters' in value &&
+        value.parameters instanceof z.ZodType &&
+        'execute' in value &&
+        typeof value.execute === 'function'
+    );
+}
+
+/** The JSON Schema of a tool's arguments, as the model should write them. */
+export function toolJsonSchema(tool: TypedTool): Record<string, unknown> {
+    const { $schema: _, ...schema } = z.toJSONSchema(tool.parameters, {
+        io: 'input',
+        unrepresentable: 'any',
+    });
+    return schema;
+}
+
+/**
+ * Parse the arguments a model wrote for `tool` and check them against its
+ * schema. On failure, the error is written for the model to correct.
+ */
+export function parseToolArguments(
+    tool: TypedTool,
+    raw: string
+): { success: true; data: Record<string, unknown> } | { success: false; error: string } {
+    let value: unknown;
+    try {
+        value = JSON.parse(raw);
+    } catch {
+        return {
+            success: false,
+            error: `Invalid arguments for ${tool.name}: expected a JSON object, got ${raw}`,
+        };
+    }
+
+    const parsed = tool.parameters.safeParse(value);
+    if (parsed.success) return { success: true, data: parsed.data };
+
+    const problems = parsed.error.issues.map(
+        (issue) =>
+            `- ${issue.path.length > 0 ? issue.path.join('.') : '(arguments)'}: ${issue.message}`
+    );
+    return {
+        success: false,
+        error: `Invalid arguments for ${tool.name}:\n${problems.join('\n')}`,
+    };
+}
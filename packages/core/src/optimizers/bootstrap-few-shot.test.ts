@@ -0,0 +1,191 @@
+import { BootstrapFewShot } from './bootstrap-few-shot';
+import { Module } from '../core/module';
+import { Example } from '../core/example';
+import { type Prediction } from '../core/prediction';
+import { Predict } from '../modules/predict';
+import { RespAct } from '../modules/respact';
+import { MockLM } from '../test-utils';
+import type { Metric } from '../types/module';
+
+const exactAnswer: Metric = (example, prediction) =>
+    prediction.get('answer') === example.get('answer');
+
+const trainset = [
+    new Example({ question: 'q1', answer: 'a1' }).withInputs('question'),
+    new Example({ question: 'q2', answer: 'a2' }).withInputs('question'),
+    new Example({ question: 'q3', answer: 'a3' }).withInputs('question'),
+];
+
+/** Two chained predictors: draft an answer, then polish it. */
+class DraftThenPolish extends Module {
+    draft: Predict;
+    polish: Predict;
+
+    constructor(lm: MockLM) {
+        super(undefined, lm);
+        this.draft = new Predict('question -> draft', lm);
+        this.polish = new Predict('draft -> answer', lm);
+    }
+
+    async forward(inputs: Record<string, any>): Promise<Prediction> {
+        const { draft } = await this.draft.forward(inputs);
+        return this.polish.forward({ draft });
+    }
+}
+
+describe('BootstrapFewShot', () => {
+    it('keeps the runs the metric accepts as demos, then fills with labelled examples', async () => {
+        const lm = new MockLM({ responses: ['answer: a1', 'answer: wrong', 'answer: a3'] });
+        const predict = new Predict('question -> answer', lm);
+
+        await new BootstrapFewShot({ metric: exactAnswer }).compile(predict, { trainset });
+
+        expect(predict.demos.map((demo) => demo.toObject())).toEqual([
+            { question: 'q1', answer: 'a1' },
+            { question: 'q3', answer: 'a3' },
+            { question: 'q2', answer: 'a2' },
+        ]);
+        // The bootstrapped demos know which keys are inputs.
+        expect(predict.demos[0].getInputs()).toEqual({ question: 'q1' });
+        // The labelled one is the trainset example itself.
+        expect(predict.demos[2]).toBe(trainset[1]);
+    });
+
+    it('stops once it has maxBootstrappedDemos', async () => {
+        const lm = new MockLM({ responses: ['answer: a1'] });
+        const predict = new Predict('question -> answer', lm);
+
+        await new BootstrapFewShot({
+            metric: exactAnswer,
+            maxBootstrappedDemos: 1,
+            maxLabeledDemos: 1,
+        }).compile(predict, { trainset });
+
+        expect(lm.calls).toHaveLength(1);
+        expect(predict.demos).toHaveLength(1);
+    });
+
+    it('retries failures in later rounds at a distinct temperature', async () => {
+        const lm = new MockLM({ responses: ['answer: no', 'answer: a1'] });
+        const predict = new Predict('question -> answer', lm);
+
+        await new BootstrapFewShot({
+            metric: exactAnswer,
+            maxRounds: 2,
+            maxLabeledDemos: 1,
+        }).compile(predict, { trainset: trainset.slice(0, 1) });
+
+        expect(lm.calls[0].options).toBeUndefined();
+        expect(lm.calls[1].options).toEqual({ temperature: 0.701 });
+        expect(predict.demos[0].toObject()).toEqual({ question: 'q1', answer: 'a1' });
+    });
+
+    it('honours a numeric metric threshold', async () => {
+        const lm = new MockLM({ responses: ['answer: a1', 'answer: a2'] });
+        const predict = new Predict('question -> answer', lm);
+        const scores = [0.4, 0.9];
+
+        await new BootstrapFewShot({
+            metric: () => scores.shift()!,
+            metricThreshold: 0.5,
+            maxLabeledDemos: 1,
+        }).compile(predict, { trainset: trainset.slice(0, 2) });
+
+        expect(predict.demos.map((demo) => demo.get('question'))).toEqual(['q2']);
+    });
+
+    it('hides the current example from the teacher so it cannot copy the answer', async () => {
+        const lm = new MockLM({ responses: ['answer: a1'] });
+        const predict = new Predict('question -> answer', lm);
+        predict.demos = [trainset[0]];
+
+        await new BootstrapFewShot({ metric: exactAnswer, maxBootstrappedDemos: 1 }).compile(
+            predict,
+            { trainset: trainset.slice(0, 1) }
+        );
+
+        expect(lm.lastPrompt()).not.toContain('answer: a1');
+    });
+
+    it('passes the run traces to the metric', async () => {
+        const lm = new MockLM({ responses: ['answer: a1'] });
+        const metric = vi.fn().mockReturnValue(true);
+
+        await new BootstrapFewShot({ metric }).compile(new Predict('question -> answer', lm), {
+            trainset: trainset.slice(0, 1),
+        });
+
+        const traces = metric.mock.calls[0][2];
+        expect(traces).toHaveLength(1);
+        expect(traces[0].output).toEqual({ answer: 'a1' });
+    });
+
+    it('installs each predictor its own step of a successful run', async () => {
+        const lm = new MockLM({ responses: ['draft: rough a1', 'answer: a1'] });
+        const program = new DraftThenPolish(lm);
+
+        const optimizer = new BootstrapFewShot({ metric: exactAnswer, maxLabeledDemos: 1 });
+        await optimizer.compile(program, { trainset: trainset.slice(0, 1) });
+
+        expect(program.draft.demos[0].toObject()).toEqual({
+            question: 'q1',
+            draft: 'rough a1',
+        });
+        expect(program.polish.demos[0].toObject()).toEqual({ draft: 'rough a1', answer: 'a1' });
+    });
+
+    it('learns from a separate teacher', async () => {
+        const teacher = new Predict(
+            'question -> answer',
+            new MockLM({ responses: ['answer: a1'] })
+        );
+        const student = new Predict('question -> answer', new MockLM());
+
+        await new BootstrapFewShot({ metric: exactAnswer }).compile(student, {
+            trainset: trainset.slice(0, 1),
+            teacher,
+        });
+
+        expect(student.demos[0].toObject()).toEqual({ question: 'q1', answer: 'a1' });
+        expect(teacher.demos).toEqual([]);
+    });
+
+    it('rejects a teacher with a different shape', async () => {
+        const lm = new MockLM();
+
+        await expect(
+            new BootstrapFewShot({ metric: exactAnswer }).compile(new DraftThenPolish(lm), {
+                trainset,
+                teacher: new Predict('question -> answer', lm),
+            })
+        ).rejects.toThrow('Teacher has 1 predictors but the student has 2');
+    });
+
+    it('rejects a student with no predictors before calling the model', async () => {
+        const lm = new MockLM({ responses: ['Final Answer: answer: a1'] });
+        const agent = new RespAct('question -> answer', { tools: {}, lm });
+
+        await expect(
+            new BootstrapFewShot({ metric: exactAnswer }).compile(agent, { trainset })
+        ).rejects.toThrow('RespAct has no predictors to learn demos for');
+        expect(lm.calls).toHaveLength(0);
+    });
+
+    it('tolerates failed runs up to maxErrors', async () => {
+        // Runs out of scripted responses after the first call.
+        const lm = new MockLM({ responses: ['answer: a1'] });
+        const predict = new Predict('question -> answer', lm);
+
+        await new BootstrapFewShot({ metric: exactAnswer, maxErrors: 2 }).compile(predict, {
+            trainset,
+        });
+        expect(predict.demos[0].toObject()).toEqual({ question: 'q1', answer: 'a1' });
+
+        await expect(
+            new BootstrapFewShot({ metric: exactAnswer, maxErrors: 1 }).compile(
+                new Predict('question -> answer', new MockLM()),
+                { trainset }
+            )
+        ).rejects.toThrow('no more scripted responses');
+    });
+});
@@ -0,0 +1,174 @@
+import { type Module } from '../core/module';
+import { Example } from '../core/example';
+import { withConfig } from '../core/config';
+import { captureTraces } from '../core/trace';
+import type { LLMCallOptions } from '../types/language-model';
+import type { Metric, TraceEntry } from '../types/module';
+import { type Predict } from '../modules/predict';
+import { createRandom, shuffle } from '../utils/random';
+import { Teleprompter, type CompileOptions } from './teleprompter';
+
+export interface BootstrapFewShotOptions {
+    /** Decides which teacher runs are good enough to learn from. */
+    metric: Metric;
+    /**
+     * A run passes when its score is at least this. When unset, any truthy score
+     * passes — `true`, or a non-zero number.
+     */
+    metricThreshold?: number;
+    /** Demos taken from successful teacher runs, per predictor. Defaults to 4. */
+    maxBootstrappedDemos?: number;
+    /**
+     * Cap on demos per predictor overall; the room left after bootstrapped demos
+     * is filled with labelled examples from the trainset. Defaults to 16.
+     */
+    maxLabeledDemos?: number;
+    /** Passes over the trainset while bootstrapped demos are still short. Defaults to 1. */
+    maxRounds?: number;
+    /** Failed teacher runs tolerated before compiling gives up and rethrows. Defaults to 10. */
+    maxErrors?: number;
+    /** Seed for choosing the labelled demos. Defaults to 0. */
+    seed?: number;
+}
+
+/**
+ * Learn demos by example: run a teacher program over the trainset, keep the
+ * runs the metric accepts, and give every predictor in the student the inputs
+ * and outputs it saw on those runs. This captures intermediate steps — a
+ * `ChainOfThought`'s reasoning, say — that a trainset only labels the end of.
+ *
+ * ```ts
+ * const optimizer = new BootstrapFewShot({
+ *     metric: (example, prediction) => prediction.get('answer') === example.get('answer'),
+ * });
+ * const compiled = await optimizer.compile(program, { trainset });
+ * ```
+ *
+ * Rounds after the first sample at a slightly different temperature each, so
+ * examples that failed can succeed on a retry, and so they miss any response
+ * cache the first round filled.
+ */
+export class BootstrapFewShot extends Teleprompter {
+    private readonly metric: Metric;
+    private readonly metricThreshold?: number;
+    private readonly maxBootstrappedDemos: number;
+    private readonly maxLabeledDemos: number;
+    private readonly maxRounds: number;
+    private readonly maxErrors: number;
+    private readonly seed: number;
+
+    constructor(options: BootstrapFewShotOptions) {
+        super();
+        this.metric = options.metric;
+        this.metricThreshold = options.metricThreshold;
+        this.maxBootstrappedDemos = options.maxBootstrappedDemos ?? 4;
+        this.maxLabeledDemos = options.maxLabeledDemos ?? 16;
+        this.maxRounds = options.maxRounds ?? 1;
+        this.maxErrors = options.maxErrors ?? 10;
+        this.seed = options.seed ?? 0;
+    }
+
+    async compile<M extends Module>(student: M, options: CompileOptions): Promise<M> {
+        const { trainset } = options;
+        const teacher = options.teacher ?? student;
+        const studentPredictors = student.predictors();
+        const teacherPredictors = teacher.predictors();
+
+        // Checked before the teacher runs: with nowhere to put demos, every call is wasted.
+        if (studentPredictors.length === 0) {
+            throw new Error(
+                `${student.constructor.name} has no predictors to learn demos for. Modules like RespAct keep no demos of their own: compile the Predict and ChainOfThought modules around them instead.`
+            );
+        }
+        if (studentPredictors.length !== teacherPredictors.length) {
+            throw new Error(
+                `Teacher has ${teacherPredictors.length} predictors but the student has ${studentPredictors.length}; they must match.`
+            );
+        }
+
+        const bootstrapped: Example[][] = studentPredictors.map(() => []);
+        const succeeded = new Set<Example>();
+        let errors = 0;
+
+        rounds: for (let round = 0; round < this.maxRounds; round++) {
+            for (const example of trainset) {
+                if (succeeded.size >= this.maxBootstrappedDemos) break rounds;
+                if (succeeded.has(example)) continue;
+
+                let traces: TraceEntry[] | undefined;
+                try {
+                    traces = await this.attempt(teacher, teacherPredictors, example, round);
+                } catch (error) {
+                    errors += 1;
+                    if (errors > this.maxErrors) throw error;
+                    continue;
+                }
+                if (!traces) continue;
+
+                succeeded.add(example);
+                for (const trace of traces) {
+                    const index = teacherPredictors.findIndex(
+                        (predictor) => predictor.moduleId === trace.moduleId
+                    );
+                    if (index !== -1) bootstrapped[index].push(demoFromTrace(trace));
+                }
+            }
+        }
+
+        const labeled = shuffle(
+            trainset.filter((example) => !succeeded.has(example)),
+            createRandom(this.seed)
+        );
+        studentPredictors.forEach((predictor, index) => {
+            const demos = bootstrapped[index].slice(0, this.maxBootstrappedDemos);
+            const room = Math.max(0, this.maxLabeledDemos - demos.length);
+            predictor.demos = [...demos, ...labeled.slice(0, room)];
+        });
+
+        return student;
+    }
+
+    /**
+     * Run the teacher on one example and return its traces if the metric
+     * accepts the result. The example is hidden from the teacher's own demos
+     * meanwhile, so it cannot pass by copying the answer.
+     */
+    private async attempt(
+        teacher: Module,
+        teacherPredictors: Predict[],
+        example: Example,
+        round: number
+    ): Promise<TraceEntry[] | undefined> {
+        const savedDemos = teacherPredictors.map((predictor) => predictor.demos);
+        for (const predictor of teacherPredictors) {
+            predictor.demos = predictor.demos.filter((demo) => demo !== example);
+        }
+
+        const callOptions: LLMCallOptions | undefined =
+            round > 0 ? { temperature: 0.7 + 0.001 * round } : undefined;
+
+        try {
+            const { result: prediction, traces } = await withConfig({ tracing: true }, () =>
+                captureTraces(() => teacher.forward(example.getInputs(), callOptions))
+            );
+            const score = await this.metric(example, prediction, traces);
+            return this.passes(score) ? traces : undefined;
+        } finally {
+            teacherPredictors.forEach((predictor, index) => {
+                predictor.demos = savedDemos[index];
+            });
+        }
+    }
+
+    private passes(score: number | boolean): boolean {
+        if (this.metricThreshold === undefined) return Boolean(score);
+        return Number(score) >= this.metricThreshold;
+    }
+}
+
+/** One traced call as a demo: its inputs, labelled as such, plus its outputs. */
+function demoFromTrace(trace: TraceEntry): Example {
+    return new Example({ ...trace.input, ...trace.output }).withInputs(
+        ...Object.keys(trace.input)
+    );
+}
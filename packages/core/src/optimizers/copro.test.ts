@@ -0,0 +1,123 @@
+import { COPRO } from './copro';
+import { Example } from '../core/example';
+import { Predict } from '../modules/predict';
+import { MockLM } from '../test-utils';
+import type { Metric } from '../types/module';
+
+const exactAnswer: Metric = (example, prediction) =>
+    prediction.get('answer') === example.get('answer');
+
+const trainset = [1, 2].map((n) =>
+    new Example({ question: `q${n}`, answer: `A${n}` }).withInputs('question')
+);
+
+/** Answers correctly only when told to shout. */
+function taskLM(): MockLM {
+    return new MockLM({
+        respond: (prompt) => {
+            const n = [...prompt.matchAll(/q(\d)/g)].pop()![1];
+            return prompt.includes('SHOUT') ? `answer: A${n}` : `answer: a${n}`;
+        },
+    });
+}
+
+describe('COPRO', () => {
+    it('writes the best proposed instruction back into the program', async () => {
+        const promptModel = new MockLM({
+            responses: [
+                'proposed_instruction: Answer briefly.',
+                'proposed_instruction: SHOUT the answer.',
+            ],
+        });
+        const predict = new Predict('question -> answer', taskLM());
+
+        const { best, history } = await new COPRO({
+            metric: exactAnswer,
+            promptModel,
+            breadth: 2,
+            depth: 1,
+        }).search(predict, { trainset });
+
+        expect(predict.instructions).toBe('SHOUT the answer.');
+        expect(best.score).toBe(1);
+        expect(history.map((candidate) => candidate.score)).toEqual([0, 0, 1]);
+        expect(promptModel.calls[0].options).toEqual({ temperature: 1, cache: false });
+    });
+
+    it('shows the proposer earlier attempts and their scores in later rounds', async () => {
+        const promptModel = new MockLM({
+            responses: [
+                'proposed_instruction: Answer briefly.',
+                'proposed_instruction: SHOUT the answer.',
+            ],
+        });
+        const predict = new Predict('question -> answer', taskLM());
+
+        await new COPRO({ metric: exactAnswer, promptModel, breadth: 1, depth: 2 }).compile(
+            predict,
+            { trainset }
+        );
+
+        expect(promptModel.calls[0].messages[0].content).toContain('attempts: (none yet)');
+        expect(promptModel.lastPrompt()).toContain('Instruction: Answer briefly.\nScore: 0');
+    });
+
+    it('proposes each round from the best instruction so far', async () => {
+        const promptModel = new MockLM({
+            responses: [
+                'proposed_instruction: SHOUT the answer.',
+                'proposed_instruction: SHOUT the answer, briefly.',
+            ],
+        });
+        const predict = new Predict('question -> answer', taskLM());
+
+        await new COPRO({ metric: exactAnswer, promptModel, breadth: 1, depth: 2 }).compile(
+            predict,
+            { trainset }
+        );
+
+        expect(promptModel.calls[0].messages[0].content).not.toContain(
+            'current_instruction: SHOUT'
+        );
+        expect(promptModel.lastPrompt()).toContain('current_instruction: SHOUT the answer.');
+    });
+
+    it('keeps the original instructions when no proposal beats them', async () => {
+        const promptModel = new MockLM({ responses: ['proposed_instruction: Be brief.'] });
+        const predict = new Predict('question -> answer', taskLM());
+        predict.instructions = 'SHOUT.';
+
+        await new COPRO({ metric: exactAnswer, promptModel, breadth: 1, depth: 1 }).compile(
+            predict,
+            { trainset }
+        );
+
+        expect(predict.instructions).toBe('SHOUT.');
+    });
+
+    it('also tries bootstrapped demo sets when asked', async () => {
+        // Proposals never help here, but demos do.
+        const lm = new MockLM({
+            respond: (prompt) => {
+                if (prompt.includes('proposed_instruction')) {
+                    return 'proposed_instruction: Think.';
+                }
+                const n = [...prompt.matchAll(/q(\d)/g)].pop()![1];
+                return prompt.includes('Follow the format') ? `answer: A${n}` : 'answer: ?';
+            },
+        });
+        const predict = new Predict('question -> answer', lm);
+
+        const { best } = await new COPRO({
+            metric: exactAnswer,
+            promptModel: lm,
+            breadth: 1,
+            depth: 1,
+            demoCandidates: 1,
+            bootstrap: { maxLabeledDemos: 1 },
+        }).search(predict, { trainset });
+
+        expect(best.demoSet).toBe(1);
+        expect(predict.demos).toHaveLength(1);
+    });
+});
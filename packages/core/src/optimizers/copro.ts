@@ -0,0 +1,269 @@
+import { type Module } from '../core/module';
+import { type Example } from '../core/example';
+import { type Signature } from '../core/signature';
+import { ValidationError } from '../core/errors';
+import type { ILanguageModel } from '../types/language-model';
+import type { Metric } from '../types/module';
+import { Predict } from '../modules/predict';
+import { Evaluate } from '../evaluate/evaluate';
+import { createRandom, shuffle } from '../utils/random';
+import { BootstrapFewShot, type BootstrapFewShotOptions } from './bootstrap-few-shot';
+import { Teleprompter, type CompileOptions } from './teleprompter';
+
+export interface COPROOptions {
+    /** Scores the program on each devset example; the mean decides between proposals. */
+    metric: Metric;
+    /** Model that writes the proposals. Defaults to the configured default model. */
+    promptModel?: ILanguageModel;
+    /** Instructions proposed per predictor in each round. Defaults to 4. */
+    breadth?: number;
+    /**
+     * Rounds of proposals per predictor. Every round after the first shows the
+     * proposer the instructions tried so far with their scores. Defaults to 2.
+     */
+    depth?: number;
+    /** Sampling temperature for proposals. Defaults to 1. */
+    temperature?: number;
+    /**
+     * Demo sets to bootstrap, with `BootstrapFewShot`, and try in combination
+     * with every instruction. With the default of 0 only the instructions
+     * change, and the program keeps the demos it has.
+     */
+    demoCandidates?: number;
+    /** Settings for bootstrapping those demo sets; `metric` is shared. */
+    bootstrap?: Omit<BootstrapFewShotOptions, 'metric'>;
+    /** Seed for shuffling the trainset before each bootstrap. Defaults to 0. */
+    seed?: number;
+}
+
+/** One scored combination of instructions and demos. */
+export interface InstructionCandidate {
+    /** Instructions per predictor, in `namedPredictors()` order; `undefined` means the signature's own. */
+    instructions: Array<string | undefined>;
+    /** Index of the demo set used; 0 is the demos the program started with. */
+    demoSet: number;
+    /** Mean metric score over the devset, where failed predictions score 0. */
+    score: number;
+}
+
+export interface COPROResult<M extends Module> {
+    /** The program, compiled with the best candidate. */
+    program: M;
+    /** Every candidate scored, in the order they were tried. */
+    history: InstructionCandidate[];
+    best: InstructionCandidate;
+}
+
+const PROPOSER_INSTRUCTIONS =
+    'You improve the instructions given to a language model for a task. Read the task ' +
+    'and its current instruction, and the instructions already attempted with their ' +
+    'scores, if any. Propose a single new instruction likely to score higher. Reply ' +
+    'with the instruction only.';
+
+/**
+ * Tune each predictor's `instructions` with proposals from a model.
+ *
+ * Predictors are optimized one at a time: a proposer model suggests `breadth`
+ * alternatives to the current instruction, each is scored against the metric
+ * with every other predictor held at its best so far, and the process repeats
+ * for `depth` rounds with the scored attempts fed back to the proposer. The
+ * winning instructions — and, with `demoCandidates`, the winning demo set —
+ * are written back into the program.
+ *
+ * ```ts
+ * const optimizer = new COPRO({ metric, breadth: 6, depth: 3 });
+ * const compiled = await optimizer.compile(program, { trainset, devset });
+ * ```
+ */
+export class COPRO extends Teleprompter {
+    private readonly options: COPROOptions;
+    private readonly breadth: number;
+    private readonly depth: number;
+    private readonly temperature: number;
+    private readonly demoCandidates: number;
+    private readonly seed: number;
+
+    constructor(options: COPROOptions) {
+        super();
+        this.options = options;
+        this.breadth = options.breadth ?? 4;
+        this.depth = options.depth ?? 2;
+        this.temperature = options.temperature ?? 1;
+        this.demoCandidates = options.demoCandidates ?? 0;
+        this.seed = options.seed ?? 0;
+    }
+
+    async compile<M extends Module>(program: M, options: CompileOptions): Promise<M> {
+        return (await this.search(program, options)).program;
+    }
+
+    /** Like {@link compile}, but also returns every candidate's score. */
+    async search<M extends Module>(
+        program: M,
+        options: CompileOptions
+    ): Promise<COPROResult<M>> {
+        const devset = options.devset ?? options.trainset;
+        const predictors = program.predictors();
+        const demoSets = await this.buildDemoSets(program, predictors, options);
+        const proposer = new Predict(
+            'task, current_instruction, attempts -> proposed_instruction',
+            this.options.promptModel
+        );
+        proposer.instructions = PROPOSER_INSTRUCTIONS;
+
+        const history: InstructionCandidate[] = [];
+        const evaluate = async (
+            instructions: Array<string | undefined>,
+            demoSet: number
+        ): Promise<InstructionCandidate> => {
+            apply(predictors, instructions, demoSets[demoSet]);
+            const score = (
+                await new Evaluate({ devset, metric: this.options.metric }).run(program)
+            ).score;
+            const candidate = { instructions, demoSet, score };
+            history.push(candidate);
+            return candidate;
+        };
+
+        let best = await evaluate(
+            predictors.map((predictor) => predictor.instructions),
+            0
+        );
+        for (let demoSet = 1; demoSet < demoSets.length; demoSet++) {
+            const candidate = await evaluate(best.instructions, demoSet);
+            if (candidate.score > best.score) best = candidate;
+        }
+
+        for (const [index, predictor] of predictors.entries()) {
+            const signature = predictor.getSignature();
+            if (!signature) continue;
+
+            const original = best.instructions[index] ?? defaultInstructions(signature);
+            const attempts = new Map<string, number>([[original, best.score]]);
+
+            for (let round = 0; round < this.depth; round++) {
+                // Each round improves on the best instruction so far, not the original.
+                const current = best.instructions[index] ?? original;
+                const proposals = await this.propose(proposer, signature, current, attempts);
+
+                for (const proposal of proposals) {
+                    let roundBest = -Infinity;
+                    for (let demoSet = 0; demoSet < demoSets.length; demoSet++) {
+                        const instructions = [...best.instructions];
+                        instructions[index] = proposal;
+                        const candidate = await evaluate(instructions, demoSet);
+                        roundBest = Math.max(roundBest, candidate.score);
+                        if (candidate.score > best.score) best = candidate;
+                    }
+                    attempts.set(proposal, roundBest);
+                }
+            }
+        }
+
+        apply(predictors, best.instructions, demoSets[best.demoSet]);
+        return { program, history, best };
+    }
+
+    /**
+     * The program's current demos, then `demoCandidates` bootstraps, each from
+     * the trainset shuffled with its own seed. Every bootstrap starts from no
+     * demos, so none builds on the last.
+     */
+    private async buildDemoSets(
+        program: Module,
+        predictors: Predict[],
+        options: CompileOptions
+    ): Promise<Example[][][]> {
+        const sets = [predictors.map((predictor) => predictor.demos)];
+
+        for (let index = 0; index < this.demoCandidates; index++) {
+            const seed = this.seed + index;
+            for (const predictor of predictors) predictor.demos = [];
+            await new BootstrapFewShot({
+                ...this.options.bootstrap,
+                metric: this.options.metric,
+                seed,
+            }).compile(program, {
+                trainset: shuffle(options.trainset, createRandom(seed)),
+                teacher: options.teacher,
+            });
+            sets.push(predictors.map((predictor) => predictor.demos));
+        }
+
+        return sets;
+    }
+
+    /**
+     * Ask for `breadth` new instructions. Duplicates, instructions already
+     * tried, and replies that fail to parse are dropped, so a round may yield
+     * fewer.
+     */
+    private async propose(
+        proposer: Predict,
+        signature: typeof Signature | string,
+        current: string,
+        attempts: Map<string, number>
+    ): Promise<string[]> {
+        const tried =
+            attempts.size > 1
+                ? [...attempts]
+                      .sort(([, a], [, b]) => a - b)
+                      .map(
+                          ([instruction, score]) =>
+                              `Instruction: ${instruction}\nScore: ${score}`
+                      )
+                      .join('\n\n')
+                : '(none yet)';
+
+        const proposals = new Set<string>();
+        for (let index = 0; index < this.breadth; index++) {
+            try {
+                const prediction = await proposer.forward(
+                    {
+                        task: describeTask(signature),
+                        current_instruction: current,
+                        attempts: tried,
+                    },
+                    // Each proposal is a fresh sample; a cache would hand back the first.
+                    { temperature: this.temperature, cache: false }
+                );
+                const proposal = String(prediction.get('proposed_instruction')).trim();
+                if (proposal && !attempts.has(proposal)) proposals.add(proposal);
+            } catch (error) {
+                if (!(error instanceof ValidationError)) throw error;
+            }
+        }
+        return [...proposals];
+    }
+}
+
+function apply(
+    predictors: Predict[],
+    instructions: Array<string | undefined>,
+    demos: Example[][]
+): void {
+    predictors.forEach((predictor, index) => {
+        predictor.instructions = instructions[index];
+        predictor.demos = demos[index];
+    });
+}
+
+function defaultInstructions(signature: typeof Signature | string): string {
+    if (typeof signature === 'string') return `Given ${signature}, produce the outputs.`;
+    return signature.description ?? `Produce ${signature.getPromptFormat()}.`;
+}
+
+/** The signature's fields, with descriptions when the class declares them. */
+function describeTask(signature: typeof Signature | string): string {
+    if (typeof signature === 'string') return signature;
+
+    const lines = [
+        ...Object.entries(signature.getInputFields()).map(
+            ([key, config]) => `input ${key}: ${config.description}`
+        ),
+        ...Object.entries(signature.getOutputFields()).map(
+            ([key, config]) => `output ${key}: ${config.description}`
+        ),
+    ];
+    return lines.join('\n');
+}
@@ -0,0 +1,83 @@
+import { LabeledFewShot } from './labeled-few-shot';
+import { Module } from '../core/module';
+import { Example } from '../core/example';
+import { type Prediction } from '../core/prediction';
+import { Predict } from '../modules/predict';
+import { ChainOfThought } from '../modules/chain-of-thought';
+import { MockLM } from '../test-utils';
+
+const trainset = ['a', 'b', 'c', 'd', 'e'].map((letter) =>
+    new Example({ question: `q-${letter}`, answer: `a-${letter}` }).withInputs('question')
+);
+
+class Pipeline extends Module {
+    draft: Predict;
+    steps: Predict[];
+
+    constructor(lm: MockLM) {
+        super(undefined, lm);
+        this.draft = new Predict('question -> answer', lm);
+        this.steps = [new ChainOfThought('question -> answer', lm), this.draft];
+    }
+
+    async forward(inputs: Record<string, any>): Promise<Prediction> {
+        return this.draft.forward(inputs);
+    }
+}
+
+describe('LabeledFewShot', () => {
+    it('gives a Predict k demos from the trainset', async () => {
+        const predict = new Predict('question -> answer', new MockLM());
+
+        const compiled = await new LabeledFewShot({ k: 3 }).compile(predict, { trainset });
+
+        expect(compiled).toBe(predict);
+        expect(compiled.demos).toHaveLength(3);
+        for (const demo of compiled.demos) {
+            expect(trainset).toContain(demo);
+        }
+    });
+
+    it('is reproducible for a given seed', async () => {
+        const lm = new MockLM();
+        const first = await new LabeledFewShot({ k: 3, seed: 7 }).compile(
+            new Predict('question -> answer', lm),
+            { trainset }
+        );
+        const second = await new LabeledFewShot({ k: 3, seed: 7 }).compile(
+            new Predict('question -> answer', lm),
+            { trainset }
+        );
+
+        expect(second.demos).toEqual(first.demos);
+    });
+
+    it('takes the first k in order when sampling is off', async () => {
+        const predict = new Predict('question -> answer', new MockLM());
+
+        await new LabeledFewShot({ k: 2, sample: false }).compile(predict, { trainset });
+
+        expect(predict.demos).toEqual(trainset.slice(0, 2));
+    });
+
+    it('fills every predictor nested in a composite program', async () => {
+        const program = new Pipeline(new MockLM());
+
+        await new LabeledFewShot({ k: 2 }).compile(program, { trainset });
+
+        expect(program.predictors()).toHaveLength(2);
+        expect(program.draft.demos).toHaveLength(2);
+        expect(program.steps[0] instanceof Predict && program.steps[0].demos).toHaveLength(2);
+    });
+
+    it('renders the compiled demos into the prompt', async () => {
+        const lm = new MockLM({ responses: ['answer: a-z'] });
+        const predict = new Predict('question -> answer', lm);
+        await new LabeledFewShot({ k: 5, sample: false }).compile(predict, { trainset });
+
+        await predict.forward({ question: 'q-z' });
+
+        expect(lm.lastPrompt()).toContain('question: q-a\nanswer: a-a');
+        expect(lm.lastPrompt()).toContain('question: q-z');
+    });
+});
@@ -0,0 +1,44 @@
+import { type Module } from '../core/module';
+import { createRandom, sample } from '../utils/random';
+import { Teleprompter, type CompileOptions } from './teleprompter';
+
+export interface LabeledFewShotOptions {
+    /** Demos given to each predictor. Defaults to 16. */
+    k?: number;
+    /** Draw demos at random rather than taking the first `k`. Defaults to true. */
+    sample?: boolean;
+    /** Seed for the random draw, so compiling twice gives the same demos. Defaults to 0. */
+    seed?: number;
+}
+
+/**
+ * The simplest optimizer: give every predictor in the program up to `k`
+ * labelled examples from the trainset as demos, as-is. No model calls.
+ *
+ * ```ts
+ * const compiled = await new LabeledFewShot({ k: 4 }).compile(qa, { trainset });
+ * ```
+ */
+export class LabeledFewShot extends Teleprompter {
+    private readonly k: number;
+    private readonly sample: boolean;
+    private readonly seed: number;
+
+    constructor(options: LabeledFewShotOptions = {}) {
+        super();
+        this.k = options.k ?? 16;
+        this.sample = options.sample ?? true;
+        this.seed = options.seed ?? 0;
+    }
+
+    async compile<M extends Module>(program: M, { trainset }: CompileOptions): Promise<M> {
+        const random = createRandom(this.seed);
+
+        for (const predictor of program.predictors()) {
+            predictor.demos = this.sample
+                ? sample(trainset, this.k, random)
+                : trainset.slice(0, this.k);
+        }
+        return program;
+    }
+}
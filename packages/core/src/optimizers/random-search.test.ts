@@ -0,0 +1,102 @@
+import { BootstrapFewShotWithRandomSearch } from './random-search';
+import { Example } from '../core/example';
+import { Predict } from '../modules/predict';
+import { MockLM } from '../test-utils';
+import type { Metric } from '../types/module';
+
+const exactAnswer: Metric = (example, prediction) =>
+    prediction.get('answer') === example.get('answer');
+
+const trainset = [1, 2, 3, 4].map((n) =>
+    new Example({ question: `q${n}`, answer: `a${n}` }).withInputs('question')
+);
+const devset = [5, 6].map((n) =>
+    new Example({ question: `q${n}`, answer: `a${n}` }).withInputs('question')
+);
+
+/** Answers the last question in the prompt correctly, but only when shown demos. */
+function demoDependentLM(): MockLM {
+    return new MockLM({
+        respond: (prompt) => {
+            const questions = [...prompt.matchAll(/q(\d)/g)];
+            const last = questions[questions.length - 1][1];
+            return prompt.includes('Follow the format') ? `answer: a${last}` : 'answer: ?';
+        },
+    });
+}
+
+describe('BootstrapFewShotWithRandomSearch', () => {
+    it('scores the baselines and every randomized candidate, best first', async () => {
+        const predict = new Predict('question -> answer', demoDependentLM());
+
+        const { leaderboard } = await new BootstrapFewShotWithRandomSearch({
+            metric: exactAnswer,
+            numCandidates: 3,
+            maxBootstrappedDemos: 2,
+            maxLabeledDemos: 2,
+        }).search(predict, { trainset, devset });
+
+        expect(leaderboard).toHaveLength(6);
+        expect(leaderboard.map((candidate) => candidate.kind)).toEqual([
+            'labeled',
+            'bootstrapped',
+            'random-bootstrapped',
+            'random-bootstrapped',
+            'random-bootstrapped',
+            'zero-shot',
+        ]);
+        expect(leaderboard.map((candidate) => candidate.seed)).toEqual([-2, -1, 0, 1, 2, -3]);
+        expect(leaderboard[0].score).toBe(1);
+        expect(leaderboard[5].score).toBe(0);
+    });
+
+    it('compiles the program with the best candidate’s demos', async () => {
+        const predict = new Predict('question -> answer', demoDependentLM());
+        const optimizer = new BootstrapFewShotWithRandomSearch({
+            metric: exactAnswer,
+            numCandidates: 2,
+            maxLabeledDemos: 2,
+        });
+
+        const { leaderboard } = await optimizer.search(predict, { trainset, devset });
+
+        expect(predict.demos).toEqual(leaderboard[0].demos[0]);
+        expect(predict.demos.length).toBeGreaterThan(0);
+    });
+
+    it('is reproducible for a given seed', async () => {
+        const run = async (seed: number) => {
+            const predict = new Predict('question -> answer', demoDependentLM());
+            const { leaderboard } = await new BootstrapFewShotWithRandomSearch({
+                metric: exactAnswer,
+                numCandidates: 3,
+                maxBootstrappedDemos: 3,
+                seed,
+            }).search(predict, { trainset, devset });
+            return leaderboard.map(({ seed, score, demos }) => ({
+                seed,
+                score,
+                demos: demos.map((list) => list.map((demo) => demo.toObject())),
+            }));
+        };
+
+        expect(await run(7)).toEqual(await run(7));
+    });
+
+    it('scores candidates on the trainset when no devset is given', async () => {
+        const metric = vi.fn(exactAnswer);
+        const predict = new Predict('question -> answer', demoDependentLM());
+
+        await new BootstrapFewShotWithRandomSearch({ metric, numCandidates: 0 }).compile(
+            predict,
+            {
+                trainset: trainset.slice(0, 1),
+            }
+        );
+
+        // Scoring calls pass no traces; bootstrapping calls do.
+        const scored = metric.mock.calls.filter((call) => call[2] === undefined);
+        expect(scored).toHaveLength(3);
+        expect(scored.every((call) => call[0] === trainset[0])).toBe(true);
+    });
+});
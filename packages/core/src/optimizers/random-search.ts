@@ -0,0 +1,127 @@
+import { type Module } from '../core/module';
+import { type Example } from '../core/example';
+import { Evaluate } from '../evaluate/evaluate';
+import { createRandom, shuffle } from '../utils/random';
+import { BootstrapFewShot, type BootstrapFewShotOptions } from './bootstrap-few-shot';
+import { LabeledFewShot } from './labeled-few-shot';
+import { Teleprompter, type CompileOptions } from './teleprompter';
+
+export interface BootstrapFewShotWithRandomSearchOptions extends BootstrapFewShotOptions {
+    /** Randomized bootstrap candidates to try, on top of the three baselines. Defaults to 8. */
+    numCandidates?: number;
+    /** Fewest bootstrapped demos a randomized candidate may draw. Defaults to 1. */
+    minBootstrappedDemos?: number;
+}
+
+/** How a candidate's demos were chosen. */
+export type CandidateKind = 'zero-shot' | 'labeled' | 'bootstrapped' | 'random-bootstrapped';
+
+export interface CandidateResult {
+    kind: CandidateKind;
+    /** Seed the candidate was built from; baselines use fixed negative seeds. */
+    seed: number;
+    /** Mean metric score over the devset, where failed predictions score 0. */
+    score: number;
+    /** The candidate's demos, one list per predictor in `namedPredictors()` order. */
+    demos: Example[][];
+}
+
+export interface RandomSearchResult<M extends Module> {
+    /** The program, compiled with the best candidate's demos. */
+    program: M;
+    /** Every candidate, best first. Ties keep the order candidates were tried in. */
+    leaderboard: CandidateResult[];
+}
+
+/**
+ * Bootstrap several candidate demo sets and keep whichever scores best on a
+ * devset.
+ *
+ * Besides `numCandidates` randomized candidates — each bootstraps from the
+ * trainset shuffled with its own seed, and caps its demos at a random size —
+ * three baselines are always scored: no demos, labelled demos only, and an
+ * unshuffled bootstrap. Everything is derived from `seed`, so runs against a
+ * scripted model are reproducible.
+ */
+export class BootstrapFewShotWithRandomSearch extends Teleprompter {
+    private readonly options: BootstrapFewShotWithRandomSearchOptions;
+    private readonly numCandidates: number;
+    private readonly minBootstrappedDemos: number;
+    private readonly maxBootstrappedDemos: number;
+    private readonly maxLabeledDemos: number;
+    private readonly seed: number;
+
+    constructor(options: BootstrapFewShotWithRandomSearchOptions) {
+        super();
+        this.options = options;
+        this.numCandidates = options.numCandidates ?? 8;
+        this.minBootstrappedDemos = options.minBootstrappedDemos ?? 1;
+        this.maxBootstrappedDemos = options.maxBootstrappedDemos ?? 4;
+        this.maxLabeledDemos = options.maxLabeledDemos ?? 16;
+        this.seed = options.seed ?? 0;
+    }
+
+    async compile<M extends Module>(program: M, options: CompileOptions): Promise<M> {
+        return (await this.search(program, options)).program;
+    }
+
+    /** Like {@link compile}, but also returns how every candidate scored. */
+    async search<M extends Module>(
+        program: M,
+        options: CompileOptions
+    ): Promise<RandomSearchResult<M>> {
+        const { trainset, teacher } = options;
+        const devset = options.devset ?? trainset;
+        const predictors = program.predictors();
+        const results: CandidateResult[] = [];
+
+        const tryCandidate = async (
+            kind: CandidateKind,
+            seed: number,
+            build: () => Promise<unknown>
+        ): Promise<void> => {
+            // Every candidate starts from a clean slate, so none inherits the
+            // previous candidate's demos through the teacher.
+            for (const predictor of predictors) predictor.demos = [];
+            await build();
+            const demos = predictors.map((predictor) => predictor.demos);
+            const score = (
+                await new Evaluate({ devset, metric: this.options.metric }).run(program)
+            ).score;
+            results.push({ kind, seed, score, demos });
+        };
+
+        await tryCandidate('zero-shot', -3, async () => undefined);
+        await tryCandidate('labeled', -2, () =>
+            new LabeledFewShot({ k: this.maxLabeledDemos, seed: this.seed }).compile(program, {
+                trainset,
+            })
+        );
+        await tryCandidate('bootstrapped', -1, () =>
+            new BootstrapFewShot(this.options).compile(program, { trainset, teacher })
+        );
+
+        for (let index = 0; index < this.numCandidates; index++) {
+            const seed = this.seed + index;
+            const random = createRandom(seed);
+            const span = Math.max(0, this.maxBootstrappedDemos - this.minBootstrappedDemos);
+            const size = this.minBootstrappedDemos + Math.floor(random() * (span + 1));
+
+            await tryCandidate('random-bootstrapped', seed, () =>
+                new BootstrapFewShot({
+                    ...this.options,
+                    maxBootstrappedDemos: size,
+                    seed,
+                }).compile(program, { trainset: shuffle(trainset, random), teacher })
+            );
+        }
+
+        const leaderboard = [...results].sort((a, b) => b.score - a.score);
+        const best = leaderboard[0];
+        predictors.forEach((predictor, index) => {
+            predictor.demos = best.demos[index];
+        });
+
+        return { program, leaderboard };
+    }
+}
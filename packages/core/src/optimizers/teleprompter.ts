@@ -0,0 +1,28 @@
+import { type Module } from '../core/module';
+import { type Example } from '../core/example';
+
+export interface CompileOptions {
+    /** Labelled examples to learn from. Each should have its input keys set with `withInputs`. */
+    trainset: Example[];
+    /**
+     * Program to run when bootstrapping demos, for optimizers that do. Must
+     * contain the same predictors, in the same order, as the program being
+     * compiled. Defaults to that program itself.
+     */
+    teacher?: Module;
+    /**
+     * Held-out examples for optimizers that score candidates. Defaults to the
+     * trainset, which rewards overfitting — pass a separate set when you can.
+     */
+    devset?: Example[];
+}
+
+/**
+ * Base class for optimizers: each takes a program and returns it with its
+ * predictors' prompts — demos, instructions — tuned against the training data.
+ *
+ * `compile` updates the program it is given and returns it.
+ */
+export abstract class Teleprompter {
+    abstract compile<M extends Module>(program: M, options: CompileOptions): Promise<M>;
+}
@@ -1,11 +1,27 @@
 import { BaseLM } from './core/base-lm';
-import type { ChatMessage, LLMCallOptions, ModelCapabilities } from './types/language-model';
+import type {
+    ChatMessage,
+    ChatResponse,
+    LLMCallOptions,
+    ModelCapabilities,
+    ToolSpec,
+} from './types/language-model';
 
 export interface MockLMOptions {
     /** Text replies returned by successive `generate`/`chat` calls. */
     responses?: string[];
     /** Objects returned by successive `generateStructured` calls. */
     structuredResponses?: unknown[];
+    /**
+     * Replies returned by successive `chatWithTools` calls. Supplying them also
+     * turns on `supportsFunctionCalling`, unless `capabilities` says otherwise.
+     */
+    toolResponses?: ChatResponse[];
+    /**
+     * Compute each text reply from the prompt instead of scripting them in
+     * order — for tests that make many calls in an order they do not control.
+     */
+    respond?: (prompt: string) => string;
     capabilities?: Partial<ModelCapabilities>;
 }
 
@@ -13,7 +29,9 @@ export interface MockLMOptions {
 export class MockLM extends BaseLM {
     private responses: string[];
     private structuredResponses: unknown[];
+    private toolResponses: ChatResponse[];
     private capabilities: ModelCapabilities;
+    private respond?: (prompt: string) => string;
 
     /** Every chat call, in order, with the options it received. */
     readonly calls: Array<{ messages: ChatMessage[]; options?: LLMCallOptions }> = [];
@@ -23,15 +41,23 @@ export class MockLM extends BaseLM {
         schema: unknown;
         options?: LLMCallOptions;
     }> = [];
+    /** Every `chatWithTools` call, in order. */
+    readonly toolCalls: Array<{
+        messages: ChatMessage[];
+        tools: ToolSpec[];
+        options?: LLMCallOptions;
+    }> = [];
 
     constructor(options: MockLMOptions = {}) {
         super('mock', 'mock-model');
         this.responses = [...(options.responses ?? [])];
         this.structuredResponses = [...(options.structuredResponses ?? [])];
+        this.toolResponses = [...(options.toolResponses ?? [])];
+        this.respond = options.respond;
         this.capabilities = {
             supportsStreaming: false,
             supportsStructuredOutput: false,
-            supportsFunctionCalling: false,
+            supportsFunctionCalling: options.toolResponses !== undefined,
             supportsVision: false,
             maxContextLength: 8192,
             supportedFormats: ['text'],
@@ -44,8 +70,18 @@ export class MockLM extends BaseLM {
         this.calls.length = 0;
     }
 
-    async chat(messages: ChatMessage[], options?: LLMCallOptions): Promise<string> {
+    protected async chatRequest(
+        messages: ChatMessage[],
+        options?: LLMCallOptions
+    ): Promise<string> {
         this.calls.push({ messages, options });
+        if (this.respond) {
+            const response = this.respond(
+                messages.map((message) => message.content).join('\n')
+            );
+            this.recordUsage({ promptTokens: 10, completionTokens: 5, latencyMs: 1 });
+            return response;
+        }
         if (this.responses.length === 0) {
             throw new Error('MockLM: no more scripted responses');
         }
@@ -53,7 +89,7 @@ export class MockLM extends BaseLM {
         return this.responses.shift()!;
     }
 
-    async generateStructured<T>(
+    protected async structuredRequest<T>(
         prompt: string,
         schema: unknown,
         options?: LLMCallOptions
@@ -61,12 +97,26 @@ export class MockLM extends BaseLM {
         this.structuredCalls.push({ prompt, schema, options });
         if (this.structuredResponses.length === 0) {
             // Fall back to the prompt-based path so tests can exercise either.
-            return super.generateStructured<T>(prompt, schema, options);
+            return super.structuredRequest<T>(prompt, schema, options);
         }
         this.recordUsage({ promptTokens: 10, completionTokens: 5, latencyMs: 1 });
         return this.structuredResponses.shift() as T;
     }
 
+    protected async toolsRequest(
+        messages: ChatMessage[],
+        tools: ToolSpec[],
+        options?: LLMCallOptions
+    ): Promise<ChatResponse> {
+        // Copy the messages: callers keep appending to the same array.
+        this.toolCalls.push({ messages: [...messages], tools, options });
+        if (this.toolResponses.length === 0) {
+            throw new Error('MockLM: no more scripted tool responses');
+        }
+        this.recordUsage({ promptTokens: 10, completionTokens: 5, latencyMs: 1 });
+        return this.toolResponses.shift()!;
+    }
+
     getCapabilities(): ModelCapabilities {
         return this.capabilities;
     }
@@ -16,6 +16,24 @@ export interface LLMCallOptions {
      * ts-dspy does not add a second retry layer on top.
      */
     retries?: number;
+    /**
+     * Set to `false` to skip the response cache for this call, even when one is
+     * configured. The response is neither read from nor written to it.
+     */
+    cache?: boolean;
+    /**
+     * Cancels the call. Modules pass their options down, so a signal given to
+     * a program's `forward` stops every call it has yet to make; `RespAct`
+     * also checks it between steps and hands it to tools. An aborted call
+     * rejects with the signal's `reason`.
+     */
+    signal?: AbortSignal;
+    /**
+     * Time by which the call must finish, in milliseconds since the epoch
+     * (e.g. `Date.now() + 30_000`). Like `signal`, it carries down through a
+     * program; calls still running when it passes reject with a `TimeoutError`.
+     */
+    deadline?: number;
     metadata?: Record<string, any>;
 }
 
@@ -27,7 +45,10 @@ export interface ChatMessage {
         name: string;
         arguments: string;
     };
+    /** On an `assistant` message: the tools the model called in that turn. */
     toolCalls?: ToolCall[];
+    /** On a `tool` message: the id of the call whose result this is. */
+    toolCallId?: string;
 }
 
 export interface ToolCall {
@@ -37,6 +58,26 @@ export interface ToolCall {
         name: string;
         arguments: string;
     };
+    /**
+     * Anything else a provider needs to see again when the call is sent back
+     * in a later turn, such as Gemini's thought signature. Pass it through.
+     */
+    providerMetadata?: Record<string, unknown>;
+}
+
+/** A tool offered to the model through its provider's native function calling. */
+export interface ToolSpec {
+    name: string;
+    description: string;
+    /** JSON Schema for the arguments: an object schema. */
+    parameters: Record<string, unknown>;
+}
+
+/** A chat reply that may call tools instead of, or as well as, answering. */
+export interface ChatResponse {
+    content: string;
+    /** Empty when the model called no tools. */
+    toolCalls: ToolCall[];
 }
 
 export interface UsageStats {
@@ -54,6 +95,8 @@ export interface UsageStats {
     errorCount?: number;
     /** Mean round-trip latency in milliseconds across recorded requests. */
     averageLatency?: number;
+    /** Requests answered from the response cache; not counted in `requestCount`. */
+    cacheHits?: number;
 }
 
 export interface StreamChunk {
@@ -86,6 +129,18 @@ export interface ILanguageModel {
         options?: LLMCallOptions
     ): Promise<T>;
     chat(messages: ChatMessage[], options?: LLMCallOptions): Promise<string>;
+    /**
+     * Chat with `tools` on offer through the provider's native function calling.
+     * Send each call's result back as a `tool` message carrying its
+     * `toolCallId`, after the `assistant` message carrying the `toolCalls`.
+     * Present only on models that implement it: `supportsFunctionCalling` says
+     * what the model can do, this says the provider wires it up.
+     */
+    chatWithTools?(
+        messages: ChatMessage[],
+        tools: ToolSpec[],
+        options?: LLMCallOptions
+    ): Promise<ChatResponse>;
     generateStream?(
         prompt: string,
         options?: LLMCallOptions
@@ -1,4 +1,7 @@
 import type { UsageStats } from './language-model';
+import type { Example } from '../core/example';
+import type { Prediction } from '../core/prediction';
+import type { FieldValidationIssue } from '../core/errors';
 
 export interface TraceEntry {
     moduleId: string;
@@ -9,4 +12,77 @@ export interface TraceEntry {
     rawLMInput: string;
     rawLMOutput: string;
     usage: UsageStats;
+    /**
+     * Responses that failed validation and were re-prompted before the one in
+     * `rawLMOutput`, oldest first. Absent when the first response was valid.
+     */
+    repairs?: RepairAttempt[];
 }
+
+/** A response that failed validation, and the prompt that produced it. */
+export interface RepairAttempt {
+    prompt: string;
+    rawOutput: string;
+    issues: FieldValidationIssue[];
+}
+
+/**
+ * One thing a `RespAct` loop did: a thought, and the tool call it made or the
+ * answer it gave. A native model calling several tools at once yields one
+ * entry per call, sharing a `step`, with the thought on the first.
+ */
+export interface TrajectoryStep {
+    /** The loop iteration, from 0. */
+    step: number;
+    thought: string;
+    tool?: string;
+    input?: string;
+    /** What the model was shown next: the tool's result, or a correction. */
+    output?: string;
+    /** Why the tool call or the answer failed, when it did. */
+    error?: string;
+    /** What was decided about a call to a tool that requires approval. */
+    approval?: 'allowed' | 'denied' | 'edited';
+    /** The input the tool ran with, when the approver edited `input`, the model's. */
+    editedInput?: string;
+    /** Time taken, model call included. */
+    durationMs: number;
+}
+
+/** A tool call that needs approval before it runs. */
+export interface PendingToolCall {
+    step: number;
+    /** The model's reasoning before the call. */
+    thought: string;
+    tool: string;
+    /** The input as the model wrote it: JSON arguments, for a typed tool. */
+    input: string;
+    /** A typed tool's arguments, once they have passed its schema. */
+    args?: Record<string, unknown>;
+}
+
+/** A run to pick up again with `RespAct.resume`: its inputs and how far it got. */
+export interface SavedTrajectory {
+    version: number;
+    inputs: Record<string, any>;
+    trajectory: TrajectoryStep[];
+    /** The call the run stopped at to wait for approval, if it did. */
+    pending?: PendingToolCall;
+    /**
+     * Calls the model made in the same turn as `pending`, after it, that have
+     * not run yet. Resuming runs them before the model is called again.
+     */
+    remaining?: PendingToolCall[];
+}
+
+/**
+ * Scores a prediction against the labelled example it was made for: `true` or a
+ * higher number is better. `trace` holds the entries recorded while the
+ * prediction was made, when the caller captured them — optimizers do, so a
+ * metric can also judge intermediate steps.
+ */
+export type Metric = (
+    example: Example,
+    prediction: Prediction,
+    trace?: TraceEntry[]
+) => number | boolean | Promise<number | boolean>;
@@ -0,0 +1,31 @@
+import type { LLMCallOptions } from '../types/language-model';
+import { getCancellation } from '../core/config';
+
+/**
+ * The signal that cancels a call made with `options`: the caller's `signal`
+ * and any from the enclosing `withConfig` scopes, cut short at the earliest
+ * deadline. Undefined when nothing can cancel the call.
+ */
+export function callSignal(options?: LLMCallOptions): AbortSignal | undefined {
+    const scoped = getCancellation();
+    const signals = [options?.signal, scoped.signal].filter(
+        (signal): signal is AbortSignal => signal !== undefined
+    );
+
+    const deadline = Math.min(options?.deadline ?? Infinity, scoped.deadline ?? Infinity);
+    if (deadline !== Infinity) {
+        const remaining = deadline - Date.now();
+        // A timeout signal aborts on a timer, even at 0: a deadline already
+        // passed must abort before the call starts.
+        signals.push(
+            remaining > 0
+                ? AbortSignal.timeout(remaining)
+                : AbortSignal.abort(
+                      new DOMException('The deadline has passed.', 'TimeoutError')
+                  )
+        );
+    }
+
+    if (signals.length <= 1) return signals[0];
+    return AbortSignal.any(signals);
+}
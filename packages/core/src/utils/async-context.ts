@@ -0,0 +1,28 @@
+import type { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Create an `AsyncLocalStorage`, or `undefined` where the runtime has none.
+ *
+ * It is looked up at runtime rather than imported, so that `@ts-dspy/core`
+ * still loads where `node:async_hooks` does not exist; callers decide what to
+ * do without it.
+ */
+export function createAsyncContext<T>(): AsyncLocalStorage<T> | undefined {
+    const asyncHooks = globalThis.process?.getBuiltinModule?.('node:async_hooks');
+    return asyncHooks ? new asyncHooks.AsyncLocalStorage<T>() : undefined;
+}
+
+/**
+ * `context`, or a clear error for `name` — the function that needs it — where
+ * the runtime has no `AsyncLocalStorage`. `hint` says what to do instead.
+ */
+export function requireAsyncContext<T>(
+    context: AsyncLocalStorage<T> | undefined,
+    name: string,
+    hint?: string
+): AsyncLocalStorage<T> {
+    if (context) return context;
+    throw new Error(
+        `${name}() needs AsyncLocalStorage (node:async_hooks), which this runtime does not provide.${hint ? ` ${hint}` : ''}`
+    );
+}
@@ -0,0 +1,29 @@
+import { mapConcurrent } from './concurrency';
+
+describe('mapConcurrent', () => {
+    it('returns results in input order', async () => {
+        const results = await mapConcurrent([30, 10, 20], 3, async (ms) => {
+            await new Promise((resolve) => setTimeout(resolve, ms));
+            return ms;
+        });
+
+        expect(results).toEqual([30, 10, 20]);
+    });
+
+    it('stops starting new calls after one fails', async () => {
+        const started: number[] = [];
+
+        await expect(
+            mapConcurrent([1, 2, 3, 4], 1, async (item) => {
+                started.push(item);
+                if (item === 2) throw new Error('boom');
+                return item;
+            })
+        ).rejects.toThrow('boom');
+        expect(started).toEqual([1, 2]);
+    });
+
+    it('treats a limit below 1 as 1', async () => {
+        expect(await mapConcurrent([1, 2], 0, async (item) => item * 2)).toEqual([2, 4]);
+    });
+});
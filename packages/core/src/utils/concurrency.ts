@@ -0,0 +1,32 @@
+/**
+ * Map `items` through `fn` with at most `limit` calls in flight, resolving to
+ * the results in input order.
+ *
+ * Rejects with the first error; no new calls start after that, though ones
+ * already running are left to finish.
+ */
+export async function mapConcurrent<T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async (): Promise<void> => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+}
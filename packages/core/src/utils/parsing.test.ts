@@ -1,6 +1,7 @@
 import { buildPrompt, parseOutput } from './parsing';
 import { Signature, InputField, OutputField } from '../core/signature';
 import { ValidationError } from '../core/errors';
+import { Example } from '../core/example';
 
 describe('Parsing Utils', () => {
     describe('buildPrompt', () => {
@@ -53,6 +54,70 @@ describe('Parsing Utils', () => {
             expect(prompt).toContain('review: Great product');
             expect(prompt).toContain('sentiment (sentiment label):');
         });
+
+        it('renders demos ahead of the current inputs', () => {
+            const demos = [
+                new Example({ question: '2 + 2?', answer: '4' }),
+                new Example({ question: 'Capital of Japan?', answer: 'Tokyo' }),
+            ];
+
+            const prompt = buildPrompt('question -> answer', { question: 'Q' }, demos);
+
+            expect(prompt).toContain('question: 2 + 2?\nanswer: 4\n\n---\n\nquestion: Capital');
+            expect(prompt.indexOf('answer: Tokyo')).toBeLessThan(prompt.indexOf('question: Q'));
+        });
+
+        it('renders demos with class-signature prefixes and serialized values', () => {
+            class Tag extends Signature {
+                static description = 'Tag a text';
+
+                @InputField({ description: 'the text', prefix: 'Text:' })
+                text!: string;
+
+                @OutputField({ description: 'tags', type: 'string[]' })
+                tags!: string[];
+            }
+
+            const prompt = buildPrompt(Tag, { text: 'now' }, [
+                new Example({ text: 'then', tags: ['a', 'b'] }),
+            ]);
+
+            expect(prompt.startsWith('Tag a text')).toBe(true);
+            expect(prompt).toContain('Text: then\ntags: ["a","b"]');
+        });
+
+        it('leaves out fields a demo does not have', () => {
+            const prompt = buildPrompt('question, context -> answer', { question: 'Q' }, [
+                new Example({ question: 'only a question', answer: 'A' }),
+            ]);
+
+            expect(prompt).toContain('question: only a question\nanswer: A');
+            expect(prompt).not.toContain('context:');
+        });
+
+        it('opens with instructions, overriding a class description', () => {
+            class Rate extends Signature {
+                static description = 'Rate a review';
+
+                @InputField()
+                review!: string;
+
+                @OutputField()
+                sentiment!: string;
+            }
+
+            const fromClass = buildPrompt(Rate, { review: 'ok' }, [], 'Be terse.');
+            const fromString = buildPrompt(
+                'review -> sentiment',
+                { review: 'ok' },
+                [],
+                'Be terse.'
+            );
+
+            expect(fromClass.startsWith('Be terse.\n\n')).toBe(true);
+            expect(fromClass).not.toContain('Rate a review');
+            expect(fromString.startsWith('Be terse.\n\nreview: ok')).toBe(true);
+        });
     });
 
     describe('parseOutput', () => {
@@ -1,21 +1,43 @@
 import { Signature } from '../core/signature';
+import { type Example } from '../core/example';
 import { ValidationError, type FieldValidationIssue } from '../core/errors';
 import { buildOutputSchema, getOutputFieldConfigs } from './schema';
 
+/**
+ * Build the prompt for one call. `demos` are rendered ahead of the current
+ * inputs as worked examples, each in the same `field: value` layout the model
+ * is asked to answer in.
+ *
+ * `instructions` open the prompt. They default to a signature class's
+ * `description`; pass them to override it, or to give a string signature any.
+ */
 export function buildPrompt(
     signature: typeof Signature | string,
-    inputs: Record<string, any>
+    inputs: Record<string, any>,
+    demos: Example[] = [],
+    instructions?: string
 ): string {
     if (typeof signature === 'string') {
-        return buildPromptFromString(signature, inputs);
+        return buildPromptFromString(signature, inputs, demos, instructions);
     }
-    return buildPromptFromClass(signature, inputs);
+    return buildPromptFromClass(signature, inputs, demos, instructions);
 }
 
-function buildPromptFromString(signatureStr: string, inputs: Record<string, any>): string {
+function buildPromptFromString(
+    signatureStr: string,
+    inputs: Record<string, any>,
+    demos: Example[],
+    instructions?: string
+): string {
     const parsed = Signature.parseStringSignature(signatureStr);
 
-    let prompt = '';
+    let prompt = instructions ? `${instructions}\n\n` : '';
+
+    prompt += renderDemos(
+        demos,
+        parsed.inputs.map((key) => [key, `${key}:`]),
+        parsed.outputs
+    );
 
     for (const inputKey of parsed.inputs) {
         if (inputs[inputKey] !== undefined) {
@@ -39,17 +61,25 @@ function buildPromptFromString(signatureStr: string, inputs: Record<string, any>
 
 function buildPromptFromClass(
     signatureClass: typeof Signature,
-    inputs: Record<string, any>
+    inputs: Record<string, any>,
+    demos: Example[],
+    instructions = signatureClass.description
 ): string {
     const inputFields = signatureClass.getInputFields();
     const outputFields = signatureClass.getOutputFields();
 
     let prompt = '';
 
-    if (signatureClass.description) {
-        prompt += `${signatureClass.description}\n\n`;
+    if (instructions) {
+        prompt += `${instructions}\n\n`;
     }
 
+    prompt += renderDemos(
+        demos,
+        Object.entries(inputFields).map(([key, config]) => [key, config.prefix || `${key}:`]),
+        Object.keys(outputFields)
+    );
+
     Object.entries(inputFields).forEach(([key, config]) => {
         if (inputs[key] !== undefined) {
             const prefix = config.prefix || `${key}:`;
@@ -66,6 +96,38 @@ function buildPromptFromClass(
     return prompt.trim();
 }
 
+/**
+ * Render demonstrations as `field: value` blocks separated by `---`, ending with
+ * a separator before the current inputs. Fields a demo lacks are left out, so a
+ * partially labelled example still shows what it has.
+ */
+function renderDemos(
+    demos: Example[],
+    inputLabels: Array<[key: string, label: string]>,
+    outputKeys: string[]
+): string {
+    if (demos.length === 0) return '';
+
+    const blocks = demos.map((demo) => {
+        const lines: string[] = [];
+        for (const [key, label] of inputLabels) {
+            const value = demo.get(key);
+            if (value !== undefined) lines.push(`${label} ${formatValue(value)}`);
+        }
+        for (const key of outputKeys) {
+            const value = demo.get(key);
+            if (value !== undefined) lines.push(`${key}: ${formatValue(value)}`);
+        }
+        return lines.join('\n');
+    });
+
+    return `Follow the format of these examples:\n\n${blocks.join('\n\n---\n\n')}\n\n---\n\n`;
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
 /**
  * Parse and validate a model's raw text output against a signature.
  *
@@ -112,6 +174,45 @@ export function parseOutput(
     throw new ValidationError(issues, text);
 }
 
+/**
+ * Validate an already-structured output — a provider's structured response, or
+ * a value computed by code — against a signature.
+ *
+ * Optional fields are expressed as nullable in the JSON Schema, so nulls are
+ * stripped before validating rather than failing on them.
+ *
+ * @throws {ValidationError} when a required field is missing or a field's value
+ * cannot be coerced to its declared type.
+ */
+export function validateOutput(
+    signature: typeof Signature | string,
+    raw: Record<string, any>
+): Record<string, any> {
+    const cleaned: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw ?? {})) {
+        if (value !== null) {
+            cleaned[key] = value;
+        }
+    }
+
+    const result = buildOutputSchema(signature).safeParse(cleaned);
+    if (result.success) {
+        return result.data as Record<string, any>;
+    }
+
+    const fields = getOutputFieldConfigs(signature);
+    const issues: FieldValidationIssue[] = result.error.issues.map((issue) => {
+        const field = String(issue.path[0] ?? '(root)');
+        return {
+            field,
+            expected: fields[field]?.type ?? 'string',
+            received: cleaned[field],
+            message: issue.message,
+        };
+    });
+    throw new ValidationError(issues, JSON.stringify(raw));
+}
+
 /** Escape a field name so it can be safely interpolated into a RegExp. */
 function escapeRegExp(value: string): string {
     return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,32 @@
+/**
+ * Seeded pseudo-random numbers, so that anything sampled — demos, candidate
+ * sets, dataset splits — is reproducible from its seed. Not for cryptography.
+ */
+export type Random = () => number;
+
+/** A mulberry32 generator: fast, small, and good enough for shuffling. */
+export function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** A shuffled copy of `items` (Fisher–Yates). */
+export function shuffle<T>(items: readonly T[], random: Random): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/** Up to `n` distinct items drawn from `items`, in random order. */
+export function sample<T>(items: readonly T[], n: number, random: Random): T[] {
+    return shuffle(items, random).slice(0, Math.max(0, n));
+}
@@ -0,0 +1,59 @@
+import { runInSandbox } from './sandbox';
+
+const budget = { timeoutMs: 500, memoryLimitMb: 32 };
+
+describe('runInSandbox', () => {
+    it('returns what the code returns, with the inputs in scope', async () => {
+        const result = await runInSandbox('return { total: inputs.a * inputs.b };', {
+            ...budget,
+            inputs: { a: 6, b: 7 },
+        });
+
+        expect(result).toEqual({ ok: true, value: { total: 42 } });
+    });
+
+    it('reports thrown errors', async () => {
+        const result = await runInSandbox('throw new RangeError("too big");', budget);
+
+        expect(result).toEqual({ ok: false, error: 'RangeError: too big' });
+    });
+
+    it('gives the code no access to Node', async () => {
+        const result = await runInSandbox('return typeof require + typeof process;', budget);
+
+        expect(result).toEqual({ ok: true, value: 'undefinedundefined' });
+    });
+
+    it('stops code that runs past its time budget', async () => {
+        const result = await runInSandbox('while (true) {}', budget);
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.error).toMatch(/timed out/i);
+    });
+
+    it('stops code that allocates past its memory budget', async () => {
+        const result = await runInSandbox(
+            'const chunks = []; while (true) chunks.push(new Array(1e5).fill(chunks.length));',
+            { timeoutMs: 10_000, memoryLimitMb: 16 }
+        );
+
+        expect(result).toEqual({ ok: false, error: 'Ran out of memory (limit 16 MB)' });
+    });
+
+    it('reports return values that cannot leave the sandbox', async () => {
+        const result = await runInSandbox('return { answer: () => 42 };', budget);
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.error).toMatch(/could not be cloned/);
+    });
+
+    it('reports inputs that cannot enter the sandbox', async () => {
+        const result = await runInSandbox('return inputs.callback();', {
+            ...budget,
+            inputs: { callback: () => 42 },
+        });
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.error).toMatch(/DataCloneError: .*could not be cloned/);
+    });
+});
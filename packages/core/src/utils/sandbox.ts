@@ -0,0 +1,102 @@
+import type * as WorkerThreads from 'node:worker_threads';
+
+export interface SandboxOptions {
+    /** Exposed to the code as the global `inputs`. Must be structured-cloneable. */
+    inputs?: Record<string, unknown>;
+    /** Milliseconds the code may run. */
+    timeoutMs: number;
+    /** Megabytes of heap the code may allocate. */
+    memoryLimitMb: number;
+}
+
+/** What running code produced: its return value, or why it failed. */
+export type SandboxResult = { ok: true; value: unknown } | { ok: false; error: string };
+
+/**
+ * Runs inside the worker. The code is the body of a function, so it ends in a
+ * `return`; the `vm` context holds nothing but `inputs`, so there is no
+ * `require`, `process` or `console` to reach for.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+try {
+    const context = vm.createContext({ inputs: workerData.inputs });
+    const value = vm.runInContext('(function () {\\n' + workerData.code + '\\n})()', context, {
+        timeout: workerData.timeoutMs,
+    });
+    parentPort.postMessage({ ok: true, value });
+} catch (error) {
+    const message = error && error.message ? error.message : String(error);
+    parentPort.postMessage({ ok: false, error: (error && error.name ? error.name + ': ' : '') + message });
+}
+`;
+
+/**
+ * How long past `timeoutMs` to wait for the worker itself — its startup, and
+ * code that blocks outside `vm`'s reach — before terminating it.
+ */
+const WORKER_GRACE_MS = 5_000;
+
+/**
+ * Run untrusted JavaScript in a `node:vm` context inside a worker thread. The
+ * `vm` timeout stops runaway loops; the worker's resource limits stop runaway
+ * allocation, which `vm` alone cannot. Failures of the code — a thrown error,
+ * the time or memory budget, inputs or a return value that cannot be sent
+ * across — are reported as a result rather than thrown.
+ *
+ * This contains mistakes, not adversaries: `node:vm` is not a security
+ * boundary. Requires Node.
+ */
+export async function runInSandbox(
+    code: string,
+    options: SandboxOptions
+): Promise<SandboxResult> {
+    const { Worker }: typeof WorkerThreads = await import('node:worker_threads');
+
+    let worker: WorkerThreads.Worker;
+    try {
+        worker = new Worker(WORKER_SOURCE, {
+            eval: true,
+            workerData: { code, inputs: options.inputs ?? {}, timeoutMs: options.timeoutMs },
+            resourceLimits: {
+                maxOldGenerationSizeMb: options.memoryLimitMb,
+                maxYoungGenerationSizeMb: Math.max(1, Math.floor(options.memoryLimitMb / 4)),
+            },
+        });
+    } catch (error) {
+        // Inputs that cannot be cloned into the worker fail here, before any code runs.
+        const { name, message } = error as Error;
+        return { ok: false, error: `${name}: ${message}` };
+    }
+
+    return new Promise((resolve) => {
+        let settled = false;
+        const settle = (result: SandboxResult): void => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            void worker.terminate();
+            resolve(result);
+        };
+
+        const timer = setTimeout(
+            () => settle({ ok: false, error: `Timed out after ${options.timeoutMs} ms` }),
+            options.timeoutMs + WORKER_GRACE_MS
+        );
+
+        worker.once('message', (result: SandboxResult) => settle(result));
+        worker.once('error', (error: Error & { code?: string }) =>
+            settle({
+                ok: false,
+                error:
+                    error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+                        ? `Ran out of memory (limit ${options.memoryLimitMb} MB)`
+                        : `${error.name}: ${error.message}`,
+            })
+        );
+        worker.once('exit', (exitCode) =>
+            settle({ ok: false, error: `Sandbox exited with code ${exitCode}` })
+        );
+    });
+}
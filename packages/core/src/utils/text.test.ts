@@ -0,0 +1,8 @@
+import { normalizeText } from './text';
+
+describe('normalizeText', () => {
+    it('drops case, punctuation, articles and extra whitespace', () => {
+        expect(normalizeText('  The  Eiffel Tower!  ')).toBe('eiffel tower');
+        expect(normalizeText('Ça va, an apple?')).toBe('ça va apple');
+    });
+});
@@ -0,0 +1,16 @@
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+/**
+ * Lower-case, drop punctuation and the articles a/an/the, and collapse
+ * whitespace, so answers that differ only in formatting compare equal.
+ */
+export function normalizeText(text: string): string {
+    // Articles are dropped as whole tokens: `\b` only knows ASCII word
+    // characters, so it would split "ça" into "ç" and a stray "a".
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter((token) => token !== '' && !ARTICLES.has(token))
+        .join(' ');
+}
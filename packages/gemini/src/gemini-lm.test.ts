@@ -126,6 +126,98 @@ describe('GeminiLM', () => {
         });
     });
 
+    describe('tool calling', () => {
+        it('offers tools as function declarations and returns the calls', async () => {
+            mocks.generateContent.mockResolvedValue(
+                response('', {
+                    candidates: [
+                        {
+                            content: {
+                                parts: [
+                                    { text: 'Checking.' },
+                                    {
+                                        functionCall: {
+                                            name: 'search',
+                                            args: { input: 'tides' },
+                                        },
+                                        thoughtSignature: 'sig',
+                                    },
+                                ],
+                            },
+                        },
+                    ],
+                })
+            );
+
+            const result = await new GeminiLM({ apiKey: 'k' }).chatWithTools(
+                [{ role: 'user', content: 'Hi' }],
+                [{ name: 'search', description: 'Search', parameters: { type: 'object' } }]
+            );
+
+            expect(result).toEqual({
+                content: 'Checking.',
+                toolCalls: [
+                    {
+                        id: 'call_1',
+                        type: 'function',
+                        function: { name: 'search', arguments: '{"input":"tides"}' },
+                        providerMetadata: { syntheticId: true, thoughtSignature: 'sig' },
+                    },
+                ],
+            });
+            expect(mocks.generateContent.mock.calls[0][0].config.tools).toEqual([
+                {
+                    functionDeclarations: [
+                        {
+                            name: 'search',
+                            description: 'Search',
+                            parametersJsonSchema: { type: 'object' },
+                        },
+                    ],
+                },
+            ]);
+        });
+
+        it('sends calls back with their signatures, and their results in one turn', () => {
+            const call = (id: string) => ({
+                id,
+                type: 'function' as const,
+                function: { name: 'search', arguments: '{"input":"x"}' },
+                providerMetadata: { syntheticId: true, thoughtSignature: `sig-${id}` },
+            });
+
+            const { contents } = toGeminiContents([
+                { role: 'user', content: 'Q' },
+                { role: 'assistant', content: '', toolCalls: [call('a'), call('b')] },
+                { role: 'tool', content: 'one', toolCallId: 'a' },
+                { role: 'tool', content: 'two', toolCallId: 'b' },
+            ]);
+
+            expect(contents.slice(1)).toEqual([
+                {
+                    role: 'model',
+                    parts: [
+                        {
+                            functionCall: { name: 'search', args: { input: 'x' } },
+                            thoughtSignature: 'sig-a',
+                        },
+                        {
+                            functionCall: { name: 'search', args: { input: 'x' } },
+                            thoughtSignature: 'sig-b',
+                        },
+                    ],
+                },
+                {
+                    role: 'user',
+                    parts: [
+                        { functionResponse: { name: 'search', response: { output: 'one' } } },
+                        { functionResponse: { name: 'search', response: { output: 'two' } } },
+                    ],
+                },
+            ]);
+        });
+    });
+
     describe('safety blocking', () => {
         it('throws when the prompt is blocked, before reading the text', async () => {
             // The old implementation read response.text() first, which threw on
@@ -199,6 +291,19 @@ describe('GeminiLM', () => {
             );
         });
 
+        it("combines the caller's abort signal with the timeout", async () => {
+            mocks.generateContent.mockResolvedValue(response('ok'));
+            const controller = new AbortController();
+            await new GeminiLM({ apiKey: 'k' }).generate('Hi', {
+                timeout: 60_000,
+                signal: controller.signal,
+            });
+
+            const { abortSignal } = mocks.generateContent.mock.calls[0][0].config;
+            controller.abort();
+            expect(abortSignal.aborted).toBe(true);
+        });
+
         it('allows a per-call model override', async () => {
             mocks.generateContent.mockResolvedValue(response('ok'));
             await new GeminiLM({ apiKey: 'k' }).generate('Hi', { model: 'gemini-3.1-pro' });
@@ -2,9 +2,12 @@ import {
     BaseLM,
     LMError,
     type ChatMessage,
+    type ChatResponse,
     type LLMCallOptions,
     type ModelCapabilities,
     type StreamChunk,
+    type ToolCall,
+    type ToolSpec,
 } from '@ts-dspy/core';
 import {
     GoogleGenAI,
@@ -13,6 +16,7 @@ import {
     type Content,
     type GenerateContentConfig,
     type GenerateContentResponse,
+    type Part,
     type SafetySetting,
 } from '@google/genai';
 
@@ -55,6 +59,8 @@ function contextLengthFor(model: string): number {
 }
 
 export class GeminiLM extends BaseLM {
+    /** Always present: this provider implements native tool calling. */
+    declare readonly chatWithTools: NonNullable<BaseLM['chatWithTools']>;
     private readonly client: GoogleGenAI;
     private readonly safetySettings: SafetySetting[];
 
@@ -71,13 +77,45 @@ export class GeminiLM extends BaseLM {
         this.safetySettings = config.safetySettings ?? DEFAULT_SAFETY_SETTINGS;
     }
 
-    async chat(messages: ChatMessage[], options?: LLMCallOptions): Promise<string> {
+    protected async chatRequest(
+        messages: ChatMessage[],
+        options?: LLMCallOptions
+    ): Promise<string> {
         const { contents, systemInstruction } = toGeminiContents(messages);
         const response = await this.send(contents, systemInstruction, options);
         return response.text ?? '';
     }
 
-    async generateStructured<T>(
+    protected async toolsRequest(
+        messages: ChatMessage[],
+        tools: ToolSpec[],
+        options?: LLMCallOptions
+    ): Promise<ChatResponse> {
+        const { contents, systemInstruction } = toGeminiContents(messages);
+        const response = await this.send(contents, systemInstruction, options, {
+            tools: [
+                {
+                    functionDeclarations: tools.map((tool) => ({
+                        name: tool.name,
+                        description: tool.description,
+                        parametersJsonSchema: tool.parameters,
+                    })),
+                },
+            ],
+        });
+
+        // Read the parts directly: `response.text` warns about the function calls.
+        const parts = response.candidates?.[0]?.content?.parts ?? [];
+        return {
+            content: parts
+                .filter((part) => typeof part.text === 'string' && !part.thought)
+                .map((part) => part.text)
+                .join(''),
+            toolCalls: toolCallsOf(parts),
+        };
+    }
+
+    protected async structuredRequest<T>(
         prompt: string,
         schema: unknown,
         options?: LLMCallOptions
@@ -112,6 +150,7 @@ export class GeminiLM extends BaseLM {
         messages: ChatMessage[],
         options?: LLMCallOptions
     ): AsyncGenerator<StreamChunk, void, unknown> {
+        options = this.withSignal(options);
         const { contents, systemInstruction } = toGeminiContents(messages);
         const startedAt = Date.now();
 
@@ -208,9 +247,11 @@ export class GeminiLM extends BaseLM {
         if (options?.presencePenalty !== undefined) {
             config.presencePenalty = options.presencePenalty;
         }
-        if (options?.timeout !== undefined) {
-            config.abortSignal = AbortSignal.timeout(options.timeout);
-        }
+        const signals = [
+            ...(options?.timeout !== undefined ? [AbortSignal.timeout(options.timeout)] : []),
+            ...(options?.signal ? [options.signal] : []),
+        ];
+        if (signals.length > 0) config.abortSignal = AbortSignal.any(signals);
 
         return config;
     }
@@ -237,6 +278,30 @@ function usageFrom(response: GenerateContentResponse | undefined) {
     };
 }
 
+/**
+ * The Gemini API often leaves a function call's `id` unset. One is made up so
+ * the call's result can refer to it, and marked so it is not sent back.
+ */
+function toolCallsOf(parts: Part[]): ToolCall[] {
+    return parts.flatMap((part, index) => {
+        const call = part.functionCall;
+        if (!call) return [];
+        return [
+            {
+                id: call.id ?? `call_${index}`,
+                type: 'function' as const,
+                function: { name: call.name ?? '', arguments: JSON.stringify(call.args ?? {}) },
+                providerMetadata: {
+                    ...(call.id ? {} : { syntheticId: true }),
+                    ...(part.thoughtSignature
+                        ? { thoughtSignature: part.thoughtSignature }
+                        : {}),
+                },
+            },
+        ];
+    });
+}
+
 /**
  * Convert ts-dspy messages to Gemini contents.
  *
@@ -244,6 +309,10 @@ function usageFrom(response: GenerateContentResponse | undefined) {
  * system role in `contents`. This does not mutate the caller's array — the
  * previous implementation called `messages.pop()`, destroying the last turn of
  * any array a caller reused.
+ *
+ * Tool calls become `functionCall` parts, with any thought signature they came
+ * with, which Gemini requires back. Tool results become `functionResponse`
+ * parts, all the results for one turn in a single content.
  */
 export function toGeminiContents(messages: ChatMessage[]): {
     contents: Content[];
@@ -251,12 +320,50 @@ export function toGeminiContents(messages: ChatMessage[]): {
 } {
     const systemParts: string[] = [];
     const contents: Content[] = [];
+    const calls = new Map<string, ToolCall>();
 
     for (const message of messages) {
         if (message.role === 'system') {
             systemParts.push(message.content);
             continue;
         }
+
+        if (message.role === 'assistant' && message.toolCalls?.length) {
+            const parts: Part[] = message.content ? [{ text: message.content }] : [];
+            for (const call of message.toolCalls) {
+                calls.set(call.id, call);
+                const signature = call.providerMetadata?.thoughtSignature;
+                parts.push({
+                    functionCall: {
+                        ...(call.providerMetadata?.syntheticId ? {} : { id: call.id }),
+                        name: call.function.name,
+                        args: JSON.parse(call.function.arguments || '{}'),
+                    },
+                    ...(typeof signature === 'string' ? { thoughtSignature: signature } : {}),
+                });
+            }
+            contents.push({ role: 'model', parts });
+            continue;
+        }
+
+        if ((message.role === 'tool' || message.role === 'function') && message.toolCallId) {
+            const call = calls.get(message.toolCallId);
+            const part: Part = {
+                functionResponse: {
+                    ...(call?.providerMetadata?.syntheticId ? {} : { id: message.toolCallId }),
+                    name: call?.function.name ?? message.name,
+                    response: { output: message.content },
+                },
+            };
+            const previous = contents.at(-1);
+            if (previous?.parts?.every((existing) => existing.functionResponse)) {
+                previous.parts.push(part);
+            } else {
+                contents.push({ role: 'user', parts: [part] });
+            }
+            continue;
+        }
+
         contents.push({
             role: message.role === 'assistant' ? 'model' : 'user',
             parts: [{ text: message.content }],
@@ -123,6 +123,16 @@ describe('OpenAILM', () => {
             expect(mocks.create.mock.calls[0][1]).toEqual({ timeout: 5000, maxRetries: 1 });
         });
 
+        it('passes the abort signal to the SDK', async () => {
+            mocks.create.mockResolvedValue(completion('ok'));
+            const controller = new AbortController();
+            await new OpenAILM({ apiKey: 'k' }).generate('Hi', { signal: controller.signal });
+
+            const { signal } = mocks.create.mock.calls[0][1];
+            controller.abort();
+            expect(signal.aborted).toBe(true);
+        });
+
         it('allows a per-call model override', async () => {
             mocks.create.mockResolvedValue(completion('ok'));
             await new OpenAILM({ apiKey: 'k' }).generate('Hi', { model: 'gpt-4.1' });
@@ -215,6 +225,55 @@ describe('OpenAILM', () => {
         });
     });
 
+    describe('tool calling', () => {
+        const search = {
+            name: 'search',
+            description: 'Search the web',
+            parameters: { type: 'object', properties: { input: { type: 'string' } } },
+        };
+        const call = {
+            id: 'call_1',
+            type: 'function' as const,
+            function: { name: 'search', arguments: '{"input":"tides"}' },
+        };
+
+        it('offers tools and returns the calls the model makes', async () => {
+            mocks.create.mockResolvedValue({
+                choices: [{ message: { content: null, tool_calls: [call] } }],
+                usage: { prompt_tokens: 12, completion_tokens: 8 },
+            });
+
+            const response = await new OpenAILM({ apiKey: 'k' }).chatWithTools(
+                [{ role: 'user', content: 'Hi' }],
+                [search]
+            );
+
+            expect(response).toEqual({ content: '', toolCalls: [call] });
+            expect(mocks.create.mock.calls[0][0].tools).toEqual([
+                {
+                    type: 'function',
+                    function: {
+                        name: 'search',
+                        description: 'Search the web',
+                        parameters: search.parameters,
+                    },
+                },
+            ]);
+        });
+
+        it('sends calls and their results back in the OpenAI shape', () => {
+            expect(
+                toOpenAIMessages([
+                    { role: 'assistant', content: '', toolCalls: [call] },
+                    { role: 'tool', content: 'high at noon', toolCallId: 'call_1' },
+                ])
+            ).toEqual([
+                { role: 'assistant', content: null, tool_calls: [call] },
+                { role: 'tool', tool_call_id: 'call_1', content: 'high at noon' },
+            ]);
+        });
+    });
+
     describe('capabilities', () => {
         it('advertises streaming, structured output and tool calling', () => {
             const capabilities = new OpenAILM({ apiKey: 'k' }).getCapabilities();
@@ -2,12 +2,18 @@ import {
     BaseLM,
     LMError,
     type ChatMessage,
+    type ChatResponse,
     type LLMCallOptions,
     type ModelCapabilities,
     type StreamChunk,
+    type ToolCall,
+    type ToolSpec,
 } from '@ts-dspy/core';
 import OpenAI, { APIError } from 'openai';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type {
+    ChatCompletionMessageParam,
+    ChatCompletionMessageToolCall,
+} from 'openai/resources/chat/completions';
 
 /**
  * Current default. Confirm against `client.models.list()` if you need a specific
@@ -49,6 +55,8 @@ function contextLengthFor(model: string): number {
 }
 
 export class OpenAILM extends BaseLM {
+    /** Always present: this provider implements native tool calling. */
+    declare readonly chatWithTools: NonNullable<BaseLM['chatWithTools']>;
     private readonly client: OpenAI;
 
     constructor(config: OpenAIConfig = {}) {
@@ -64,7 +72,10 @@ export class OpenAILM extends BaseLM {
         });
     }
 
-    async chat(messages: ChatMessage[], options?: LLMCallOptions): Promise<string> {
+    protected async chatRequest(
+        messages: ChatMessage[],
+        options?: LLMCallOptions
+    ): Promise<string> {
         const startedAt = Date.now();
 
         try {
@@ -90,7 +101,49 @@ export class OpenAILM extends BaseLM {
         }
     }
 
-    async generateStructured<T>(
+    protected async toolsRequest(
+        messages: ChatMessage[],
+        tools: ToolSpec[],
+        options?: LLMCallOptions
+    ): Promise<ChatResponse> {
+        const startedAt = Date.now();
+
+        try {
+            const completion = await this.client.chat.completions.create(
+                {
+                    model: options?.model ?? this.model,
+                    messages: toOpenAIMessages(messages),
+                    ...samplingParams(options),
+                    tools: tools.map((tool) => ({
+                        type: 'function' as const,
+                        function: {
+                            name: tool.name,
+                            description: tool.description,
+                            parameters: tool.parameters,
+                        },
+                    })),
+                },
+                requestOptions(options)
+            );
+
+            this.recordUsage({
+                promptTokens: completion.usage?.prompt_tokens ?? 0,
+                completionTokens: completion.usage?.completion_tokens ?? 0,
+                latencyMs: Date.now() - startedAt,
+            });
+
+            const message = completion.choices[0]?.message;
+            return {
+                content: message?.content ?? '',
+                toolCalls: fromOpenAIToolCalls(message?.tool_calls ?? []),
+            };
+        } catch (error) {
+            this.recordError();
+            throw toLMError(error);
+        }
+    }
+
+    protected async structuredRequest<T>(
         prompt: string,
         schema: unknown,
         options?: LLMCallOptions
@@ -156,6 +209,7 @@ export class OpenAILM extends BaseLM {
         messages: ChatMessage[],
         options?: LLMCallOptions
     ): AsyncGenerator<StreamChunk, void, unknown> {
+        options = this.withSignal(options);
         const startedAt = Date.now();
 
         let stream;
@@ -229,11 +283,29 @@ export function toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessage
             case 'system':
                 return { role: 'system', content: message.content };
             case 'assistant':
+                if (message.toolCalls?.length) {
+                    return {
+                        role: 'assistant',
+                        content: message.content || null,
+                        tool_calls: message.toolCalls.map((call) => ({
+                            id: call.id,
+                            type: 'function' as const,
+                            function: call.function,
+                        })),
+                    };
+                }
                 return { role: 'assistant', content: message.content };
             case 'tool':
             case 'function':
-                // The core ChatMessage shape has no tool_call_id, so a tool
-                // result is surfaced as user content rather than dropped.
+                if (message.toolCallId) {
+                    return {
+                        role: 'tool',
+                        tool_call_id: message.toolCallId,
+                        content: message.content,
+                    };
+                }
+                // A result that answers no call is surfaced as user content
+                // rather than dropped.
                 return { role: 'user', content: message.content };
             default:
                 return { role: 'user', content: message.content };
@@ -241,6 +313,24 @@ export function toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessage
     });
 }
 
+/** Function calls only: custom tools are never offered, so never called. */
+function fromOpenAIToolCalls(calls: ChatCompletionMessageToolCall[]): ToolCall[] {
+    return calls.flatMap((call) =>
+        call.type === 'function'
+            ? [
+                  {
+                      id: call.id,
+                      type: 'function' as const,
+                      function: {
+                          name: call.function.name,
+                          arguments: call.function.arguments,
+                      },
+                  },
+              ]
+            : []
+    );
+}
+
 /**
  * Build sampling parameters.
  *
@@ -265,11 +355,18 @@ function samplingParams(options?: LLMCallOptions): Record<string, unknown> {
     return params;
 }
 
+interface RequestOptions {
+    timeout?: number;
+    maxRetries?: number;
+    signal?: AbortSignal;
+}
+
 /** Map ts-dspy call options onto the SDK's per-request options. */
-function requestOptions(options?: LLMCallOptions): { timeout?: number; maxRetries?: number } {
-    const request: { timeout?: number; maxRetries?: number } = {};
+function requestOptions(options?: LLMCallOptions): RequestOptions {
+    const request: RequestOptions = {};
     if (options?.timeout !== undefined) request.timeout = options.timeout;
     if (options?.retries !== undefined) request.maxRetries = options.retries;
+    if (options?.signal) request.signal = options.signal;
     return request;
 }
 